@@ -0,0 +1,253 @@
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { hostname } from 'node:os';
+import path from 'node:path';
+
+import { LockBackend, PromiseUtils, Scheduler, systemScheduler } from './promise-utils';
+
+/**
+ * Options for {@link FileLockBackend}.
+ */
+export type FileLockBackendOptions = {
+  /**
+   * The directory for the lock files, which is created if it does not exist.
+   * All the processes to be coordinated must use the same directory.
+   */
+  directory: string;
+  /**
+   * How often (in milliseconds) a lock held by others is checked while waiting for it. It defaults to 100.
+   */
+  pollIntervalMs?: number;
+  /**
+   * The {@link Scheduler} for polling and the lease expiry. It defaults to {@link systemScheduler}.
+   */
+  scheduler?: Scheduler;
+};
+
+type LockFileContent = {
+  token: string;
+  hostname: string;
+  pid: number;
+  expiresAt: number;
+};
+
+/**
+ * A {@link LockBackend} based on lock files, for coordinating {@link PromiseUtils.synchronized} across processes
+ * on the same host (or sharing the same file system) without any extra service.
+ *
+ * A lock file is created atomically and contains the lease, which tells when it expires and which process holds it.
+ * A lock file is considered stale, and is taken over, when its lease has expired,
+ * or when the process holding it on the same host is no longer running.
+ * A lock file that is empty or corrupted is considered stale once it has not been modified
+ * for as long as the lease being acquired lasts.
+ *
+ * It is not exported from the main module, because it depends on Node.js built-in modules.
+ *
+ * @example
+ * import { FileLockBackend } from '@handy-common-utils/promise-utils/dist/file-lock-backend';
+ *
+ * const backend = new FileLockBackend({ directory: '/tmp/my-app-locks' });
+ * // only one of the workers on this host runs the migration at a time
+ * await PromiseUtils.synchronized('migration', () => runMigration(), { backend, leaseTtlMs: 60000 });
+ */
+export class FileLockBackend implements LockBackend {
+  constructor(private readonly options: FileLockBackendOptions) {}
+
+  /**
+   * Acquires the lock of a key, waiting until its lock file is removed or becomes stale. See {@link LockBackend}.
+   * @param key The key identifying the lock, which is encoded into the name of the lock file.
+   * @param ttlMs How long (in milliseconds) the lease lasts unless it is renewed.
+   * @param options Options for this call.
+   * @param options.signal An optional `AbortSignal` for giving up waiting.
+   * @returns A Promise of the token identifying the lease.
+   */
+  async acquire(key: string, ttlMs: number, options?: { signal?: AbortSignal }): Promise<string> {
+    const signal = options?.signal;
+    const file = this.lockFile(key);
+    const token = randomUUID();
+    await fs.mkdir(this.options.directory, { recursive: true });
+    while (true) {
+      if (signal?.aborted) {
+        throw signal.reason ?? new DOMException('This operation was aborted', 'AbortError');
+      }
+      if (await this.tryCreate(file, this.leaseFor(token, ttlMs))) {
+        return token;
+      }
+      if (!await this.removeIfStale(file, ttlMs)) {
+        await PromiseUtils.delayedResolve(this.options.pollIntervalMs ?? 100, undefined, { signal, scheduler: this.scheduler });
+      }
+    }
+  }
+
+  /**
+   * Extends a lease by replacing its lock file, unless the lock file belongs to someone else. See {@link LockBackend}.
+   *
+   * The lock file is moved away before being replaced, so that a lock file taken over by someone else in the meantime
+   * would never be overwritten. The other side of this is that the lock file is briefly absent,
+   * and if another process creates a new one at that moment, the lease is considered lost.
+   * @param key The key identifying the lock.
+   * @param token The token returned by `acquire(...)`.
+   * @param ttlMs How long (in milliseconds) the lease lasts from now.
+   * @returns A Promise of true if the lease has been extended, or false if it has been lost.
+   */
+  async renew(key: string, token: string, ttlMs: number): Promise<boolean> {
+    const file = this.lockFile(key);
+    const lease = await this.read(file);
+    if (lease?.token !== token) {
+      return false;
+    }
+    const temporaryFile = `${file}.${token}.tmp`;
+    const renewingFile = `${file}.${token}.renewing`;
+    await fs.writeFile(temporaryFile, JSON.stringify(this.leaseFor(token, ttlMs)));
+    try {
+      if (await this.moveAway(file, renewingFile, token) !== 'moved') {
+        return false;
+      }
+      await fs.rm(renewingFile, { force: true });
+      return await this.tryLink(temporaryFile, file);
+    } finally {
+      await fs.rm(temporaryFile, { force: true });
+    }
+  }
+
+  /**
+   * Releases a lease by removing its lock file, unless the lock file belongs to someone else. See {@link LockBackend}.
+   *
+   * The lock file is moved away before being removed, so that a lock file taken over by someone else in the meantime
+   * would never be removed.
+   * @param key The key identifying the lock.
+   * @param token The token returned by `acquire(...)`.
+   */
+  async release(key: string, token: string): Promise<void> {
+    const file = this.lockFile(key);
+    const lease = await this.read(file);
+    if (lease?.token !== token) {
+      return;
+    }
+    const releasingFile = `${file}.${token}.releasing`;
+    if (await this.moveAway(file, releasingFile, token) === 'moved') {
+      await fs.rm(releasingFile, { force: true });
+    }
+  }
+
+  private get scheduler(): Scheduler {
+    return this.options.scheduler ?? systemScheduler;
+  }
+
+  private lockFile(key: string): string {
+    return path.join(this.options.directory, `${encodeURIComponent(key)}.lock`);
+  }
+
+  private leaseFor(token: string, ttlMs: number): LockFileContent {
+    return { token, hostname: hostname(), pid: process.pid, expiresAt: this.scheduler.now() + ttlMs };
+  }
+
+  // the content is written to a temporary file first, so that nobody could ever see a lock file without content
+  private async tryCreate(file: string, lease: LockFileContent): Promise<boolean> {
+    const temporaryFile = `${file}.${lease.token}.tmp`;
+    await fs.writeFile(temporaryFile, JSON.stringify(lease));
+    try {
+      return await this.tryLink(temporaryFile, file);
+    } finally {
+      await fs.rm(temporaryFile, { force: true });
+    }
+  }
+
+  // returns false if the lock file exists
+  private async tryLink(source: string, file: string): Promise<boolean> {
+    try {
+      await fs.link(source, file); // atomic, and fails if the lock file exists
+      return true;
+    } catch (error: any) {
+      if (error?.code === 'EEXIST') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // moves the lock file away atomically if it still has the token (undefined for a lock file without a lease),
+  // so that only one of the processes racing for the same lock file could have it moved away
+  private async moveAway(file: string, movedFile: string, token: string | undefined): Promise<'moved' | 'missing' | 'replaced'> {
+    try {
+      await fs.rename(file, movedFile);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return 'missing';
+      }
+      throw error;
+    }
+    const movedLease = await this.read(movedFile);
+    if (movedLease?.token !== token) {
+      // it has been replaced by a fresh one in the meantime, so put it back unless yet another one has been created
+      await this.tryLink(movedFile, file);
+      await fs.rm(movedFile, { force: true });
+      return 'replaced';
+    }
+    return 'moved';
+  }
+
+  // returns undefined if the lock file does not exist, or null if it does not contain a lease, such as when it is empty or corrupted
+  private async read(file: string): Promise<LockFileContent | null | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    try {
+      const lease = JSON.parse(content);
+      return typeof lease?.token === 'string' && typeof lease.expiresAt === 'number' ? lease : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // returns the time (in milliseconds since the epoch) the lock file was last modified, or undefined if it does not exist
+  private async modifiedAt(file: string): Promise<number | undefined> {
+    try {
+      const stats = await fs.stat(file);
+      return stats.mtimeMs;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  // returns true if the stale lock file has been removed by this call, so that there is no need to wait before trying again
+  private async removeIfStale(file: string, ttlMs: number): Promise<boolean> {
+    const lease = await this.read(file);
+    if (lease === undefined) {
+      return false;
+    }
+    if (lease === null) {
+      // the modification time comes from the wall clock rather than the scheduler
+      const modifiedAt = await this.modifiedAt(file);
+      if (modifiedAt === undefined || modifiedAt + ttlMs > Date.now()) {
+        return false;
+      }
+    } else if (lease.expiresAt > this.scheduler.now() && (lease.hostname !== hostname() || isProcessRunning(lease.pid))) {
+      return false;
+    }
+    const staleFile = `${file}.${randomUUID()}.stale`;
+    if (await this.moveAway(file, staleFile, lease?.token) !== 'moved') {
+      return false;
+    }
+    await fs.rm(staleFile, { force: true });
+    return true;
+  }
+}
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error?.code === 'EPERM'; // it exists but belongs to another user
+  }
+}
@@ -1,844 +1,4715 @@
 /* c8 ignore next */
 /**
- * Array of 25 Fibonacci numbers starting from 1 up to 317811.
+ * Array of 27 Fibonacci numbers starting from 1 up to 317811.
  * It can be used to form your own backoff interval array.
+ * For jitter, caps and unbounded sequences, consider {@link Backoff.fibonacci} instead.
  * @example
- * // 1ms, 2ms, 3ms, 5ms, 8ms, 13ms
+ * // 1ms, 2ms, 3ms, 5ms, 8ms
  * PromiseUtils.withRetry(() => doSomething(), FIBONACCI_SEQUENCE.slice(0, 5), err => err.statusCode === 429);
- * // 1s, 2s, 3s, 4s, 8s, 10s, 10s, 10s, 10s, 10s
+ * // 1s, 2s, 3s, 5s, 8s, 10s, 10s, 10s, 10s, 10s
  * PromiseUtils.withRetry(() => doSomething(), Array.from({length: 10}, (_v, i) => 1000 * Math.min(FIBONACCI_SEQUENCE[i], 10)), err => err.statusCode === 429);
- * // with +-10% randomness: 1s, 2s, 3s, 5s, 8s, 13s
+ * // with +-10% randomness: 1s, 2s, 3s, 5s, 8s
  * PromiseUtils.withRetry(() => doSomething(), FIBONACCI_SEQUENCE.slice(0, 5).map(n => 1000 * n * (1 + (Math.random() - 0.5) / 5)), err => err.statusCode === 429);
  */
 export const FIBONACCI_SEQUENCE = [1, 2, 3, 5, 8, 13, 21, 34, 55, 89, 144, 233, 377, 610, 987, 1597, 2584, 4181, 6765, 10946, 17711, 28657, 46368, 75025, 121393, 196418, 317811];
 
 /* c8 ignore next */
 /**
- * Array of 25 exponential numbers starting from 1 up to 33554432.
+ * Array of 26 exponential numbers starting from 1 up to 33554432.
  * It can be used to form your own backoff interval array.
+ * For jitter, caps and unbounded sequences, consider {@link Backoff.exponential} instead.
  * @example
- * // 1ms, 2ms, 4ms, 8ms, 16ms, 32ms
+ * // 1ms, 2ms, 4ms, 8ms, 16ms
  * PromiseUtils.withRetry(() => doSomething(), EXPONENTIAL_SEQUENCE.slice(0, 5), err => err.statusCode === 429);
  * // 1s, 2s, 4s, 8s, 10s, 10s, 10s, 10s, 10s, 10s
  * PromiseUtils.withRetry(() => doSomething(), Array.from({length: 10}, (_v, i) => 1000 * Math.min(EXPONENTIAL_SEQUENCE[i], 10)), err => err.statusCode === 429);
  * // with +-10% randomness: 1s, 2s, 4s, 8s
- * PromiseUtils.withRetry(() => doSomething(), FIBONACCI_SEQUENCE.slice(0, 4).map(n => 1000 * n * (1 + (Math.random() - 0.5) / 5)), err => err.statusCode === 429);
+ * PromiseUtils.withRetry(() => doSomething(), EXPONENTIAL_SEQUENCE.slice(0, 4).map(n => 1000 * n * (1 + (Math.random() - 0.5) / 5)), err => err.statusCode === 429);
  */
-export const EXPONENTIAL_SEQUENCE = [1, 2, 4, 8, 16, 32, 64, 128, 256, 512, 1024, 2048, 4096, 8192, 16384, 1597, 32768, 65536, 131072, 262144, 524288, 1048576, 2097152, 4194304, 8388608, 16777216, 33554432];
+export const EXPONENTIAL_SEQUENCE = [1, 2, 4, 8, 16, 32, 64, 128, 256, 512, 1024, 2048, 4096, 8192, 16384, 32768, 65536, 131072, 262144, 524288, 1048576, 2097152, 4194304, 8388608, 16777216, 33554432];
 
 /**
- * The state of a Promise can only be one of: Pending, Fulfilled, and Rejected.
+ * The source of time and timers used by the utilities in this package.
+ *
+ * All the functions and classes that deal with time accept an optional `scheduler`,
+ * which defaults to {@link systemScheduler}.
+ * Passing a {@link VirtualScheduler} instead makes it possible to test code built on top of them
+ * deterministically without really waiting.
  */
-export const PromiseState = {
-  Pending: 'Pending',
-  Fulfilled: 'Fulfilled',
-  Rejected: 'Rejected',
-} as const;
+export type Scheduler = {
+  /**
+   * Returns the current time in milliseconds.
+   */
+  now(): number;
+  /**
+   * Schedules the callback to be called after the specified number of milliseconds.
+   * @returns A handle that can be passed to `clearTimeout`.
+   */
+  setTimeout(callback: () => void, ms: number): unknown;
+  /**
+   * Cancels a callback scheduled by `setTimeout`. Unknown or already fired handles are ignored.
+   */
+  clearTimeout(handle: unknown): void;
+};
 
-export type PromiseStateType = keyof typeof PromiseState;
+/**
+ * The default {@link Scheduler} which uses `Date.now()` and the global `setTimeout`/`clearTimeout`.
+ * The global functions are looked up on every call, so fake timers installed later are respected.
+ */
+export const systemScheduler: Scheduler = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Gets the reason of an aborted signal, for {@link PromiseUtils} and the classes in this module.
+ * Runtimes that do not populate `signal.reason` get a standard `AbortError` instead.
+ * @param signal The aborted signal.
+ * @returns The abort reason.
+ */
+function abortReasonOf(signal: AbortSignal): any {
+  return signal.reason ?? new DOMException('This operation was aborted', 'AbortError');
+}
+
+/**
+ * A composable backoff policy that produces a lazy sequence of delays (in milliseconds).
+ *
+ * A `Backoff` is an immutable `Iterable<number>`: every method returns a new `Backoff`,
+ * and every iteration starts from the beginning of the sequence.
+ * It can be passed directly as the `backoff` argument of {@link PromiseUtils.withRetry}
+ * or the `interval` argument of {@link PromiseUtils.runPeriodically}.
+ *
+ * The base sequences are unbounded. Use `withMaxAttempts(...)` and/or `withMaxElapsedTime(...)`
+ * to make them finite, otherwise `withRetry` would keep retrying for as long as `shouldRetry` allows.
+ *
+ * @example
+ * // 100ms, 200ms, 400ms, 800ms, 1600ms, 2000ms, 2000ms, ... with full jitter, at most 8 retries
+ * const backoff = Backoff.exponential(100).withCap(2000).withFullJitter().withMaxAttempts(8);
+ * const result = await PromiseUtils.withRetry(() => doSomething(), backoff, err => err.statusCode === 429);
+ *
+ * // retry for no longer than 30 seconds in total
+ * const result2 = await PromiseUtils.withRetry(() => doSomething(), Backoff.decorrelatedJitter(100, 5000).withMaxElapsedTime(30000));
+ */
+export class Backoff implements Iterable<number> {
+  private constructor(private readonly generate: () => Iterator<number>) {}
 
-export abstract class PromiseUtils {
   /**
-   * Executes an operation repeatedly and collects all the results.
-   * This function is very useful for many scenarios, such like client-side pagination.
-   *
-   * @example
-   * const domainNameObjects = await PromiseUtils.repeat(
-   *   pagingParam => apig.getDomainNames({limit: 500, ...pagingParam}).promise(),
-   *   response => response.position? {position: response.position} : null,
-   *   (collection, response) => collection.concat(response.items!),
-   *   [] as APIGateway.DomainName[],
-   * );
-   *
-   * @template Result The type of the operation result.
-   * @template Param The type of the input to the operation, typically a paging parameter.
-   * @template Collection The type of the collection returned by this function.
-   *
-   * @param operation A function that takes a parameter as input and returns a result. Typically, the parameter has optional fields to control paging.
-   * @param nextParameter A function for calculating the next parameter from the operation result.
-   *        Normally, this parameter controls paging.
-   *        This function should return null when no further invocation of the operation function is desired.
-   *        If further invocation is desired, the return value of this function can be a Promise or a non-Promise value.
-   * @param collect A function for merging the operation result into the collection.
-   * @param initialCollection The initial collection, which will be the first argument passed to the first invocation of the collect function.
-   * @param initialParameter The parameter for the first operation.
-   * @returns A promise that resolves to a collection of all the results returned by the operation function.
-   *
+   * Creates a Backoff from a function that generates a fresh iterator for every iteration.
+   * @param generate The function that creates the iterator, typically a generator function.
+   * @returns A new Backoff.
    */
-  static async repeat<Result, Param, Collection>(
-    operation: (parameter: Partial<Param>) => Promise<Result>,
-    nextParameter: (response: Result) => Partial<Param> | Promise<Partial<Param>> | null,
-    collect: (collection: Collection, result: Result) => Collection,
-    initialCollection: Collection,
-    initialParameter: Partial<Param> = {},
-  ): Promise<Collection> {
-    let collection = initialCollection;
-    let param: Partial<Param> = initialParameter;
-    do {
-      const result = await operation(param);
-      collection = collect(collection, result);
-      const paramOrPromise = nextParameter(result);
-      if (paramOrPromise === null) {
-        break;
+  static from(generate: () => Iterator<number>): Backoff {
+    return new Backoff(generate);
+  }
+
+  /**
+   * Creates an unbounded sequence of the same delay.
+   * @param delayMs The delay in milliseconds.
+   * @returns A new Backoff: delayMs, delayMs, delayMs, ...
+   */
+  static constant(delayMs: number): Backoff {
+    return new Backoff(function * () {
+      while (true) {
+        yield delayMs;
       }
-      param = await paramOrPromise;
-    } while (true);
-    return collection;
+    });
   }
 
   /**
-   * Repeatedly performs an operation until a specified criteria is met.
-   *
-   * @example
-   * const result = await PromiseUtils.withRetry(() => doSomething(), [100, 200, 300, 500, 800, 1000]);
-   * const result2 = await PromiseUtils.withRetry(() => doSomething(), Array.from({length: 10}, (_v, i) => 1000 * Math.min(FIBONACCI_SEQUENCE[i], 10), err => err.statusCode === 429);
-   * const result3 = await PromiseUtils.withRetry(() => doSomething(), attempt => attempt <= 8 ? 1000 * Math.min(FIBONACCI_SEQUENCE[attempt - 1], 10) : undefined, err => err.statusCode === 429);
-   *
-   * @template Result Type of the operation result.
-   * @template TError Type of the possible error that could be generated by the operation.
-   *
-   * @param operation A function that outputs a Promise result. Typically, the operation does not use its arguments.
-   * @param backoff An array of retry backoff periods (in milliseconds) or a function for calculating them.
-   *                If retry is desired, the specified backoff period is waited before the next call to the operation.
-   *                If the array runs out of elements or the function returns `undefined` or a negative number, no further calls to the operation will be made.
-   *                The `attempt` argument passed to the backoff function starts from 1, as it is called immediately after the first attempt and before the first retry.
-   * @param shouldRetry A predicate function for deciding whether another call to the operation should occur.
-   *                    If this argument is not defined, a retry will occur whenever the operation rejects with an error.
-   *                    The `shouldRetry` function is evaluated before the `backoff`.
-   *                    The `attempt` argument passed to the shouldRetry function starts from 1.
-   * @returns A promise of the operation result, potentially with retries applied.
+   * Creates an unbounded sequence of linearly increasing delays.
+   * @param initialMs The first delay in milliseconds.
+   * @param incrementMs The increment added for every subsequent delay, defaults to `initialMs`.
+   * @returns A new Backoff: initialMs, initialMs + incrementMs, initialMs + 2 * incrementMs, ...
    */
-  static async withRetry<Result, TError = any>(
-    operation: (attempt: number, previousResult: Result|undefined, previousError: TError|undefined) => Promise<Result>,
-    backoff: Array<number> | ((attempt: number, previousResult: Result|undefined, previousError: TError|undefined) => number|undefined),
-    shouldRetry: (previousError: TError|undefined, previousResult: Result|undefined, attempt: number) => boolean = (previousError, _previousResult, _attempt) => previousError !== undefined,
-  ): Promise<Result> {
-    type OperationOutcome = {result?: Result; error?: TError};
-    let attempt = 1;
-    const finalOutcome = await PromiseUtils.repeat<OperationOutcome, OperationOutcome, OperationOutcome>(
-      (previousOutcome: Partial<OperationOutcome>) => operation(attempt, previousOutcome.result, previousOutcome.error).then(result => ({ result })).catch(error => ({ error })),
-      outcome => {
-        if (!shouldRetry(outcome.error, outcome.result, attempt)) {
-          return null;
-        }
-        const backoffMs = Array.isArray(backoff) ? backoff[attempt - 1] : backoff(attempt, outcome.result, outcome.error);
-        if (backoffMs == null || backoffMs < 0) {
-          return null;
-        }
-        attempt++;
-        return PromiseUtils.delayedResolve(backoffMs, outcome);
-      },
-      (_, outcome) => outcome,
-      {}, // it is actually not used
-    );
-    if (finalOutcome.error !== undefined) {
-      throw finalOutcome.error;
-    }
-    return finalOutcome.result!;
+  static linear(initialMs: number, incrementMs = initialMs): Backoff {
+    return new Backoff(function * () {
+      for (let delay = initialMs; ; delay += incrementMs) {
+        yield delay;
+      }
+    });
   }
 
   /**
-   * Executes multiple jobs/operations with a specified level of concurrency.
-   * 
-   * Unlike `inParallel(...)`, this function may throw or reject an error when a job/operation fails.
-   * When an error is thrown, the function rejects immediately, and no further operations will be started.
-   * If you want all the operations to always be executed, use {@link PromiseUtils.inParallel} instead.
-   * 
-   * @example
-   * // At any time, there would be no more than 5 concurrency API calls. Error would be re-thrown immediately when it occurs.
-   * const attributes = await PromiseUtils.withConcurrency(5, topicArns, async (topicArn) => {
-   *   const topicAttributes = (await sns.getTopicAttributes({ TopicArn: topicArn }).promise()).Attributes!;
-   *   return topicAttributes;
-   * });
-   * 
-   *
-   * @template Data   The type of the job data, typically an Array.
-   * @template Result The type of the return value from the operation function.
-   *
-   * @param concurrency The number of jobs/operations to run concurrently.
-   * @param jobs The job data to be processed. This function can handle an infinite or unknown number of elements safely.
-   * @param operation The function that processes job data asynchronously.
-   * @returns A promise that resolves to an array containing the results from the operation function.
-   *          The results in the returned array are in the same order as the corresponding elements in the jobs array.
+   * Creates an unbounded sequence of exponentially increasing delays.
+   * @param initialMs The first delay in milliseconds.
+   * @param factor The multiplier applied for every subsequent delay, defaults to 2.
+   * @returns A new Backoff: initialMs, initialMs * factor, initialMs * factor^2, ...
    */
-  static async withConcurrency<Data, Result>(
-    concurrency: number,
-    jobs: Iterable<Data>,
-    operation: (job: Data, index: number) => Promise<Result>,
-  ): Promise<Array<Result>> {
-    return inParallel(concurrency, jobs, operation, { abortOnError: true });
+  static exponential(initialMs: number, factor = 2): Backoff {
+    return new Backoff(function * () {
+      for (let delay = initialMs; ; delay *= factor) {
+        yield delay;
+      }
+    });
   }
 
   /**
-   * Executes multiple jobs/operations in parallel. By default, all operations are executed regardless of any failures.
-   * In most cases, using {@link PromiseUtils.withConcurrency} might be more convenient.
-   *
-   * By default, this function does not throw or reject an error when any job/operation fails.
-   * Errors from operations are returned alongside results in the returned array.
-   * This function only resolves when all jobs/operations are settled (either resolved or rejected).
-   *
-   * If `options.abortOnError` is set to true, this function throws (or rejects with) an error immediately when any job/operation fails.
-   * In this mode, no further operations will be started after a failure occurs.
-   *
-   * @example
-   * // Capture errors in the returned array
-   * const attributesAndPossibleErrors: Array<JobResult|JobError> = await PromiseUtils.inParallel(5, topicArns, async (topicArn) => {
-   *   const topicAttributes = (await sns.getTopicAttributes({ TopicArn: topicArn }).promise()).Attributes!;
-   *   return topicAttributes;
-   * });
-   * 
-   * // Abort on the first error
-   * let results: Array<JobResult>;
-   * try {
-   *   results = await PromiseUtils.inParallel(100, jobs, async (job) => processor.process(job), { abortOnError: true });
-   * } catch (error) {
-   *   // handle the error
-   * }
-   *
-   * @template Data   The type of the job data, typically an Array.
-   * @template Result The type of the return value from the operation function.
-   * @template TError The type for the error that could be thrown from the operation function, defaults to `Result`.
-   *
-   * @param parallelism The number of jobs/operations to run concurrently.
-   * @param jobs The job data to be processed. This function can safely handle an infinite or unknown number of elements.
-   * @param operation The function that processes job data asynchronously.
-   * @param options Options to control the function's behavior.
-   * @param options.abortOnError If true, the function aborts and throws an error on the first failed operation.
-   * @returns A promise that resolves to an array containing the results of the operations.
-   *  Each element is either a fulfilled result or a rejected error/reason.
-   *  The results or errors in the returned array are in the same order as the corresponding elements in the jobs array.
+   * Creates an unbounded sequence of delays following the Fibonacci sequence.
+   * @param unitMs The unit in milliseconds that the Fibonacci numbers (1, 2, 3, 5, 8, ...) are multiplied by.
+   * @returns A new Backoff: unitMs, 2 * unitMs, 3 * unitMs, 5 * unitMs, 8 * unitMs, ...
    */
-  static async inParallel<Data, Result, TError = Result>(
-    parallelism: number,
-    jobs: Iterable<Data>,
-    operation: (job: Data, index: number) => Promise<Result>,
-    options?: {
-      abortOnError: boolean;
-    },
-  ): Promise<Array<Result | TError>> {
-    if (parallelism < 1) {
-      parallelism = 1;
-    }
-    const jobResults = new Array<Result | TError>();
-    let index = 0;
-    let aborted = false;
-    const iterator = jobs[Symbol.iterator]();
-    const promises = Array.from({ length: Math.floor(parallelism) }, (async _ => {
-      let iteratorResult: IteratorResult<Data, any>;
+  static fibonacci(unitMs: number): Backoff {
+    return new Backoff(function * () {
+      let [a, b] = [1, 2];
       while (true) {
-        if (aborted) {
-          break;
-        }
-        iteratorResult = iterator.next();
-        if (iteratorResult.done) {
-          break;
-        }
-        const job = iteratorResult.value;
-        const jobIndex = index++;
-        const jobResultPromise = operation(job, jobIndex);
-        try {
-          jobResults[jobIndex] = options?.abortOnError ? await jobResultPromise : await jobResultPromise.catch(error => error);
-        } catch (error) {
-          aborted = true;
-          throw error;
-        }
+        yield a * unitMs;
+        [a, b] = [b, a + b];
       }
-    }));
-    await Promise.all(promises);
-    return jobResults;
+    });
   }
 
   /**
-   * Creates a cancellable timer that will resolve after a specified number of milliseconds.
-   *
-   * The returned object contains:
-   * - `stop()` to cancel the scheduled resolution (if called before the timer fires). Calling
-   *   `stop()` prevents the promise from being settled by this timer.
-   * - `promise` which will resolve with the supplied `result` (or the value returned by the
-   *   `result` function) after `ms` milliseconds unless `stop()` is called first.
-   *
-   * Note: If the `result` is a function that returns a Promise, the returned `promise` will
-   * resolve with that Promise's resolution (i.e. it behaves like resolving with a PromiseLike).
-   *
-   * @param ms The number of milliseconds after which the scheduled resolution will occur.
-   * @param result The result to be resolved by the Promise, or a function that supplies the result.
-   * @returns An object with `stop()` and `promise`.
+   * Creates an unbounded sequence of "decorrelated jitter" delays,
+   * in which every delay is a random number between `baseMs` and three times the previous delay, capped by `capMs`.
+   * See https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+   * @param baseMs The minimum delay in milliseconds.
+   * @param capMs The maximum delay in milliseconds.
+   * @returns A new Backoff.
    */
-  static cancellableDelayedResolve<T>(ms: number, result?: T | PromiseLike<T> | (() => (T | PromiseLike<T>))): { stop: () => void; promise: Promise<T> } {
-    let stopped = false;
-    let timer: ReturnType<typeof setTimeout> | undefined;
-
-    const promise = new Promise<T>(resolve => {
-      timer = setTimeout(() => {
-        timer = undefined;
-        if (stopped) return;
-        resolve(
-          typeof result === 'function' ? (result as (() => T | PromiseLike<T>))() : result as T | PromiseLike<T>,
-        );
-      }, ms);
+  static decorrelatedJitter(baseMs: number, capMs: number): Backoff {
+    return new Backoff(function * () {
+      let delay = baseMs;
+      while (true) {
+        delay = Math.min(capMs, baseMs + Math.random() * (delay * 3 - baseMs));
+        yield delay;
+      }
     });
+  }
 
-    const stop = () => {
-      if (stopped) return;
-      stopped = true;
-      if (timer !== undefined) {
-        clearTimeout(timer);
-        timer = undefined;
+  /**
+   * Transforms every delay in the sequence.
+   * @param transform The function that maps a delay to a new delay. The `attempt` argument starts from 1.
+   * @returns A new Backoff.
+   */
+  map(transform: (delayMs: number, attempt: number) => number): Backoff {
+    const generate = function * (source: Iterable<number>) {
+      let attempt = 0;
+      for (const delay of source) {
+        yield transform(delay, ++attempt);
       }
     };
+    return new Backoff(() => generate(this));
+  }
 
-    return { stop, promise };
+  /**
+   * Applies "full jitter": every delay `d` becomes a random number between 0 and `d`.
+   * @returns A new Backoff.
+   */
+  withFullJitter(): Backoff {
+    return this.map(delay => Math.random() * delay);
   }
 
   /**
-   * Creates a Promise that resolves after a specified number of milliseconds.
-   *
-   * The `result` argument may be:
-   * - a value to resolve with,
-   * - a PromiseLike whose resolution will be adopted by the returned Promise, or
-   * - a function which is invoked when the timer fires and may return a value or a PromiseLike.
-   *
-   * If `result` is a function, it is called when the timer elapses; if it returns a Promise,
-   * the returned Promise will adopt that Promise's outcome.
-   *
-   * @param ms The number of milliseconds after which the created Promise will resolve.
-   * @param result The result to be resolved by the Promise, or a function that supplies the result.
-   * @returns A Promise that resolves with the specified result after the specified delay.
+   * Applies "equal jitter": every delay `d` becomes `d / 2` plus a random number between 0 and `d / 2`.
+   * @returns A new Backoff.
    */
-  static delayedResolve<T>(ms: number, result?: T | PromiseLike<T> | (() => (T | PromiseLike<T>))): Promise<T> {
-    return PromiseUtils.cancellableDelayedResolve(ms, result).promise;
+  withEqualJitter(): Backoff {
+    return this.map(delay => delay / 2 + Math.random() * delay / 2);
   }
 
   /**
-   * Creates a cancellable timer that will reject after a specified number of milliseconds.
-   *
-   * The returned object contains:
-   * - `stop()` to cancel the scheduled rejection (if called before the timer fires). Calling
-   *   `stop()` prevents the promise from being settled by this timer.
-   * - `promise` which will reject with the supplied `reason` (or the value returned by the
-   *   `reason` function) after `ms` milliseconds unless `stop()` is called first.
-   *
-   * If the `reason` is a PromiseLike that rejects, its rejection value will be used as the rejection reason.
-   *
-   * @param ms The number of milliseconds after which the scheduled rejection will occur.
-   * @param reason The reason for the rejection, or a function that supplies the reason.
-   * @returns An object with `stop()` and `promise`.
+   * Caps every delay in the sequence.
+   * @param maxDelayMs The maximum delay in milliseconds.
+   * @returns A new Backoff.
    */
-  static cancellableDelayedReject<T = never, R = any>(ms: number, reason: R | PromiseLike<R> | (() => R|PromiseLike<R>)): { stop: () => void; promise: Promise<T> } {
-    let stopped = false;
-    let timer: ReturnType<typeof setTimeout> | undefined;
+  withCap(maxDelayMs: number): Backoff {
+    return this.map(delay => Math.min(delay, maxDelayMs));
+  }
 
-    const promise = new Promise<T>((_resolve, reject) => {
-      timer = setTimeout(() => {
-        timer = undefined;
-        if (stopped) return;
-        const r = typeof reason === 'function' ? (reason as (() => R|PromiseLike<R>))() : reason as R|PromiseLike<R>;
-        // Resolve the possibly-PromiseLike `r` and reject the outer promise with either
-        // the resolved value or the rejection reason of `r`.
-        Promise.resolve(r).then(reject, reject);
-      }, ms);
-    });
+  /**
+   * Limits the number of delays in the sequence, which is also the maximum number of retries when used with `withRetry`.
+   * @param maxAttempts The maximum number of delays.
+   * @returns A new Backoff.
+   */
+  withMaxAttempts(maxAttempts: number): Backoff {
+    const generate = function * (source: Iterable<number>) {
+      if (maxAttempts <= 0) {
+        return;
+      }
+      let attempt = 0;
+      for (const delay of source) {
+        yield delay;
+        if (++attempt >= maxAttempts) {
+          return;
+        }
+      }
+    };
+    return new Backoff(() => generate(this));
+  }
 
-    const stop = () => {
-      if (stopped) return;
-      stopped = true;
-      if (timer !== undefined) {
-        clearTimeout(timer);
-        timer = undefined;
+  /**
+   * Ends the sequence when the time elapsed since the iteration started, plus the next delay, would exceed the limit.
+   * When used with `withRetry`, the iteration starts when `withRetry` is called,
+   * so the limit covers both the time spent in the operation and the time spent in backoff.
+   * @param maxElapsedMs The maximum total elapsed time in milliseconds.
+   * @param options Options to control the function's behavior.
+   * @param options.scheduler The {@link Scheduler} for reading the current time. It defaults to {@link systemScheduler}.
+   * @returns A new Backoff.
+   */
+  withMaxElapsedTime(maxElapsedMs: number, options?: { scheduler?: Scheduler }): Backoff {
+    const scheduler = options?.scheduler ?? systemScheduler;
+    const generate = function * (source: Iterable<number>, startTime: number) {
+      for (const delay of source) {
+        if (scheduler.now() - startTime + delay > maxElapsedMs) {
+          return;
+        }
+        yield delay;
       }
     };
+    // the body of a generator function does not run until the first delay is requested, so the start time is read here
+    return new Backoff(() => generate(this, scheduler.now()));
+  }
 
-    return { stop, promise };
+  [Symbol.iterator](): Iterator<number> {
+    return this.generate();
   }
+}
+
+/**
+ * The state of a Promise can only be one of: Pending, Fulfilled, and Rejected.
+ */
+export const PromiseState = {
+  Pending: 'Pending',
+  Fulfilled: 'Fulfilled',
+  Rejected: 'Rejected',
+} as const;
+
+export type PromiseStateType = keyof typeof PromiseState;
+
+/**
+ * The reason for {@link PromiseUtils.withRetry} to stop retrying:
+ * - `'shouldRetry'`: the `shouldRetry` function returned false.
+ * - `'backoffExhausted'`: the backoff array or iterable ran out of elements, or the backoff function returned `undefined` or a negative number.
+ * - `'deadline'`: waiting for the next delay would go beyond the `deadlineMs` option.
+ * - `'circuitOpen'`: the circuit breaker specified by the `circuitBreaker` option rejected the attempt with a {@link CircuitOpenError}.
+ * - `'retryBudgetExhausted'`: the retry budget specified by the `retryBudget` option did not allow any more retries.
+ */
+export type RetryGiveUpReason = 'shouldRetry' | 'backoffExhausted' | 'deadline' | 'circuitOpen' | 'retryBudgetExhausted';
 
+/**
+ * Options for {@link PromiseUtils.withRetry}.
+ *
+ * @template Result Type of the operation result.
+ * @template TError Type of the possible error that could be generated by the operation.
+ */
+export type WithRetryOptions<Result, TError = any> = {
   /**
-   * Creates a Promise that rejects after a specified number of milliseconds.
-   *
-   * The `reason` argument may be:
-   * - a value to reject with,
-   * - a PromiseLike whose rejection will be adopted by the returned Promise, or
-   * - a function which is invoked when the timer fires and may return a value or a PromiseLike.
-   *
-   * If `reason` is a function, it is called when the timer elapses; if it returns a Promise,
-   * the returned Promise will reject with that Promise's rejection reason (or reject with the
-   * returned value if it resolves).
-   *
-   * @param ms The number of milliseconds after which the created Promise will reject.
-   * @param reason The reason for the rejection, or a function that supplies the reason.
-   * @returns A Promise that rejects with the specified reason after the specified delay.
+   * An optional `AbortSignal`. When it is aborted, `withRetry` rejects with the abort reason
+   * (normally an `AbortError`) promptly, even if it is waiting for a backoff period, and no further attempts will be made.
+   * The signal is also passed to the operation function.
    */
-  static delayedReject<T = never, R = any>(ms: number, reason: R | PromiseLike<R> | (() => R|PromiseLike<R>)): Promise<T> {
-    return PromiseUtils.cancellableDelayedReject(ms, reason).promise;
-  }
+  signal?: AbortSignal;
+  /**
+   * A function for extracting the delay (in milliseconds) dictated by the server from the error or result of an attempt,
+   * typically from the `Retry-After` header of a 429 or 503 response (see {@link PromiseUtils.parseRetryAfter}).
+   * It is called only when a retry is going to happen, and the `attempt` argument starts from 1.
+   * When it returns a non-negative number, that number is used as the delay before the next attempt according to `retryAfterMode`.
+   * When it returns `undefined`, the delay from `backoff` is used.
+   * Note that the `backoff` still decides whether there should be another attempt at all.
+   */
+  retryAfterMs?: (previousError: TError|undefined, previousResult: Result|undefined, attempt: number) => number|undefined;
+  /**
+   * How the delay returned by `retryAfterMs` is combined with the delay from `backoff`:
+   * - `'override'`: the delay returned by `retryAfterMs` is used as is, this is the default.
+   * - `'atLeastBackoff'`: the longer one of the two is used.
+   */
+  retryAfterMode?: 'override' | 'atLeastBackoff';
+  /**
+   * The overall deadline in milliseconds, measured from when `withRetry` is called.
+   * If waiting for the next delay would go beyond the deadline, `withRetry` gives up immediately
+   * (resolving or rejecting with the outcome of the last attempt) instead of waiting.
+   */
+  deadlineMs?: number;
+  /**
+   * A hook called before each attempt. The `attempt` starts from 1,
+   * and `elapsedMs` is the time elapsed since `withRetry` was called.
+   */
+  onAttempt?: (info: { attempt: number; elapsedMs: number }) => void;
+  /**
+   * A hook called after an attempt failed (according to `shouldRetry`) and another attempt is going to be made,
+   * with the delay (in milliseconds) that is about to be waited before the next attempt.
+   */
+  onRetry?: (info: { attempt: number; error: TError|undefined; result: Result|undefined; delayMs: number; elapsedMs: number }) => void;
+  /**
+   * A hook called when `withRetry` is going to resolve, with the number of attempts made
+   * and the total time (in milliseconds) spent waiting in backoff.
+   */
+  onSuccess?: (info: { attempts: number; result: Result; elapsedMs: number; totalDelayMs: number }) => void;
+  /**
+   * A hook called when `withRetry` is going to reject with the error from the last attempt,
+   * with the number of attempts made, the reason for giving up, and the total time (in milliseconds) spent waiting in backoff.
+   * It is not called when `withRetry` rejects because the signal is aborted.
+   */
+  onGiveUp?: (info: { attempts: number; error: TError; reason: RetryGiveUpReason; elapsedMs: number; totalDelayMs: number }) => void;
+  /**
+   * If true, when giving up with an error, `withRetry` rejects with a {@link RetryExhaustedError}
+   * carrying the details of all the attempts, instead of the error from the last attempt.
+   * It defaults to false.
+   */
+  throwRetryExhaustedError?: boolean;
+  /**
+   * An optional {@link CircuitBreaker} that every attempt goes through.
+   * When the circuit is open, the attempt fails fast with a {@link CircuitOpenError}
+   * and `withRetry` gives up immediately without waiting for any further backoff.
+   * The circuit breaker is typically shared by all the calls to the same dependency.
+   */
+  circuitBreaker?: CircuitBreaker;
+  /**
+   * The timeout (in milliseconds) applied to each attempt.
+   * When an attempt times out, the signal passed to the operation function for that attempt is aborted
+   * with an {@link AttemptTimeoutError}, and the attempt is considered failed with that error,
+   * so that `shouldRetry` can recognise it with `error instanceof AttemptTimeoutError`.
+   * When this option is specified, the signal passed to the operation function is specific to each attempt,
+   * and it is also aborted when `signal` is aborted.
+   */
+  perAttemptTimeoutMs?: number;
+  /**
+   * An optional {@link RetryBudget} shared by many calls to `withRetry`.
+   * Every successful call deposits into the budget, and every retry withdraws from it.
+   * When the budget does not allow a retry, `withRetry` gives up immediately.
+   */
+  retryBudget?: RetryBudget;
+  /**
+   * An optional {@link RateLimiter} shared by many callers. A permit is acquired from it before every attempt, including the first one.
+   * The time spent waiting for permits is not counted as backoff delay, though it is counted as elapsed time.
+   */
+  rateLimiter?: RateLimiter;
+  /**
+   * The {@link Scheduler} for backoff delays, per-attempt timeouts and measuring elapsed time.
+   * It defaults to {@link systemScheduler}.
+   */
+  scheduler?: Scheduler;
+};
 
+/**
+ * The error that an attempt fails with when it exceeds the `perAttemptTimeoutMs` option of {@link PromiseUtils.withRetry}.
+ */
+export class AttemptTimeoutError extends Error {
   /**
-   * Applies a timeout to a Promise or a function that returns a Promise.
-   * If the timeout occurs, the returned Promise resolves to the specified result.
-   * If the timeout does not occur, the returned Promise resolves or rejects based on the outcome of the original Promise.
-   * If the `result` parameter is a function and the timeout does not occur, the function will not be called.
-   * Note: The rejection of the `operation` parameter is not handled by this function. 
-   * You may want to handle it outside this function to avoid warnings like "(node:4330) PromiseRejectionHandledWarning: Promise rejection was handled asynchronously."
-   *
-   * @param operation The original Promise or a function that returns a Promise to which the timeout will be applied.
-   * @param ms The number of milliseconds for the timeout.
-   * @param result The result to resolve with if the timeout occurs, or a function that supplies the result.
-   * @returns A new Promise that resolves to the specified result if the timeout occurs.
+   * Constructor
+   * @param attempt The attempt that timed out, starting from 1.
+   * @param timeoutMs The timeout in milliseconds.
    */
-  static timeoutResolve<T>(operation: Promise<T> | (() => Promise<T>), ms: number, result?: T | PromiseLike<T> | (() => (T | PromiseLike<T>)) | undefined): Promise<T> {
-    const promise = typeof operation === 'function' ? operation() : operation;
-    const { stop, promise: timeoutPromise } = PromiseUtils.cancellableDelayedResolve(
-      ms,
-      () => PromiseUtils.promiseState(promise)
-              .then(state => state === PromiseState.Pending ?
-                  (typeof result === 'function' ? (result as () => T|PromiseLike<T>|undefined)() : result) :
-                  {} as any),
-    );
-    promise.then(() => stop(), () => stop());
-    return Promise.race([
-      promise,
-      timeoutPromise,
-    ]);
+  constructor(readonly attempt: number, readonly timeoutMs: number) {
+    super(`Attempt ${attempt} timed out after ${timeoutMs}ms`);
+    this.name = 'AttemptTimeoutError';
   }
+}
 
+/**
+ * The details of one attempt made by {@link PromiseUtils.withRetry}.
+ *
+ * @template Result Type of the operation result.
+ * @template TError Type of the possible error that could be generated by the operation.
+ */
+export type RetryAttemptRecord<Result, TError = any> = {
+  /** The attempt number, starting from 1. */
+  attempt: number;
+  /** When the attempt started, in milliseconds since epoch. */
+  startTime: number;
+  /** When the attempt settled, in milliseconds since epoch. */
+  endTime: number;
+  /** The result, if the attempt fulfilled. */
+  result?: Result;
+  /** The error, if the attempt rejected. */
+  error?: TError;
+  /** The delay (in milliseconds) waited after this attempt, undefined if there was no further attempt. */
+  delayMs?: number;
+};
+
+/**
+ * The error thrown by {@link PromiseUtils.withRetry} when it gives up and the `throwRetryExhaustedError` option is true.
+ * The `errors` property contains the errors from all the failed attempts, in order,
+ * and the `attempts` property contains the details of all the attempts, including those that fulfilled with a result.
+ *
+ * @template Result Type of the operation result.
+ * @template TError Type of the possible error that could be generated by the operation.
+ */
+export class RetryExhaustedError<Result = any, TError = any> extends AggregateError {
   /**
-   * Applies a timeout to a Promise or a function that returns a Promise.
-   * If the timeout occurs, the returned Promise rejects with the specified reason.
-   * If the timeout does not occur, the returned Promise resolves or rejects based on the outcome of the original Promise.
-   * If the `rejectReason` parameter is a function and the timeout does not occur, the function will not be called.
-   * Note: The rejection of the `operation` parameter is not handled by this function. You may want to handle it outside this function to avoid warnings like "(node:4330) PromiseRejectionHandledWarning: Promise rejection was handled asynchronously."
-   *
-   * @param operation The original Promise or a function that returns a Promise to which the timeout will be applied.
-   * @param ms The number of milliseconds for the timeout.
-   * @param rejectReason The reason to reject with if the timeout occurs, or a function that supplies the reason.
-   * @returns A new Promise that rejects with the specified reason if the timeout occurs.
+   * Constructor
+   * @param attempts The details of all the attempts, in order.
+   * @param reason Why `withRetry` stopped retrying: `'shouldRetry'` means the error was not considered retryable,
+   *               while `'backoffExhausted'` and `'deadline'` mean that it ran out of retries or time.
+   * @param elapsedMs The total time elapsed in milliseconds.
+   * @param totalDelayMs The total time spent waiting in backoff in milliseconds.
    */
-  static timeoutReject<T = never, R = any>(operation: Promise<T> | (() => Promise<T>), ms: number, rejectReason: R | PromiseLike<R> | (() => R|PromiseLike<R>)): Promise<T> {
-    const promise = typeof operation === 'function' ? operation() : operation;
-    const { stop, promise: timeoutPromise } = PromiseUtils.cancellableDelayedReject<T, R>(
-      ms,
-      () => PromiseUtils.promiseState(promise)
-              .then(state => state === PromiseState.Pending ?
-                  (typeof rejectReason === 'function' ? (rejectReason as () => R|PromiseLike<R>)() : rejectReason) :
-                  {} as any),
-    );
-    promise.then(() => stop(), () => stop());
-    return Promise.race([
-      promise,
-      timeoutPromise,
-    ]);
+  constructor(
+    readonly attempts: Array<RetryAttemptRecord<Result, TError>>,
+    readonly reason: RetryGiveUpReason,
+    readonly elapsedMs: number,
+    readonly totalDelayMs: number,
+  ) {
+    const errors = attempts.filter(a => a.error !== undefined).map(a => a.error);
+    const lastError: any = errors[errors.length - 1];
+    super(errors, `Gave up after ${attempts.length} attempt(s) (${reason}) in ${elapsedMs}ms, last error: ${lastError?.message ?? lastError}`);
+    this.name = 'RetryExhaustedError';
   }
 
   /**
-   * Retrieves the state of the specified Promise.
-   * Note: The returned value is a Promise that resolves immediately.
-   *
-   * @param p The Promise whose state is to be determined.
-   * @returns A Promise that resolves immediately with the state of the input Promise.
+   * The error from the last attempt.
    */
-  static promiseState(p: Promise<any>): Promise<PromiseStateType> {
-    const t = {};
-    return Promise.race([p, t])
-      .then(v => (v === t) ? PromiseState.Pending : PromiseState.Fulfilled, () => PromiseState.Rejected);
+  get lastError(): TError | undefined {
+    return this.attempts[this.attempts.length - 1]?.error;
   }
+}
+
+/**
+ * The outcome of one job processed by {@link PromiseUtils.inParallelSettled}.
+ * Like `PromiseSettledResult`, it is either `{ status: 'fulfilled', value }` or `{ status: 'rejected', reason }`,
+ * plus the index and the data of the job.
+ *
+ * @template Data   The type of the job data.
+ * @template Result The type of the return value from the operation function.
+ * @template TError The type for the error that could be thrown from the operation function.
+ */
+export type JobSettledResult<Data, Result, TError = any> = ({
+  status: 'fulfilled';
+  /** The result returned by the operation function. */
+  value: Result;
+} | {
+  status: 'rejected';
+  /** The error thrown by the operation function. */
+  reason: TError;
+}) & {
+  /** The index of the job, starting from 0. */
+  index: number;
+  /** The job data. */
+  job: Data;
+};
+
+/**
+ * The results returned by {@link PromiseUtils.inParallelSettled}.
+ *
+ * @template Data   The type of the job data.
+ * @template Result The type of the return value from the operation function.
+ * @template TError The type for the error that could be thrown from the operation function.
+ */
+export type InParallelSettledResults<Data, Result, TError = any> = {
+  /** The outcomes of all the jobs, in the same order as the jobs. */
+  results: Array<JobSettledResult<Data, Result, TError>>;
+  /** The number of jobs that fulfilled. */
+  fulfilledCount: number;
+  /** The number of jobs that rejected. */
+  rejectedCount: number;
+};
 
-  private static synchronizationLocks = new Map<any, Promise<any>>();
+/**
+ * The progress reported through the `onProgress` option of {@link PromiseUtils.inParallel} and its siblings.
+ */
+export type InParallelProgress = {
+  /** The number of jobs started so far. */
+  started: number;
+  /** The number of jobs finished so far, either fulfilled or rejected. */
+  completed: number;
+  /** The number of jobs rejected so far, which is included in `completed`. */
+  failed: number;
+  /** The number of jobs running. */
+  inFlight: number;
+  /** The total number of jobs, known only when the jobs are given as an Array, a Set or a Map. */
+  total?: number;
+  /** The time elapsed (in milliseconds) since the processing started. */
+  elapsedMs: number;
+  /** The number of jobs completed per second so far. */
+  throughputPerSecond: number;
+  /** The estimated time (in milliseconds) for completing the remaining jobs, known only when `total` is known and some jobs have completed. */
+  etaMs?: number;
+};
 
+/**
+ * The `retry` option of {@link PromiseUtils.inParallel}, {@link PromiseUtils.withConcurrency} and {@link PromiseUtils.inParallelSettled}.
+ * Each job is retried like through {@link PromiseUtils.withRetry}, with the same backoff, predicate and options,
+ * except that the signal, the rate limiter and the scheduler come from the options of the function.
+ *
+ * @template Result Type of the operation result.
+ * @template TError Type of the possible error that could be generated by the operation.
+ */
+export type InParallelRetryOptions<Result, TError = any> = Omit<WithRetryOptions<Result, TError>, 'signal' | 'rateLimiter' | 'scheduler'> & {
   /**
-   * Provides mutual exclusion similar to `synchronized` in Java.
-   * Ensures no concurrent execution of any operation function associated with the same lock.
-   * The operation function has access to the state (when `synchronized` is called),
-   * settledState (when the operation function is called),
-   * and result (either the fulfilled result or the rejected reason) of the previous operation.
-   * If there is no previous invocation, state, settledState, and result will all be undefined.
-   * 
-   * @param lock The object (such as a string, a number, or `this` in a class) used to identify the lock.
-   * @param operation The function that performs the computation and returns a Promise.
-   * @returns The result of the operation function.
+   * The retry backoff periods (in milliseconds), same as the `backoff` argument of {@link PromiseUtils.withRetry}.
    */
-  static async synchronized<T>(lock: any, operation: (previousState: PromiseStateType | undefined, previousSettledState: PromiseStateType | undefined, previousResult: any) => Promise<T>): Promise<T> {
-    let resultPromise: Promise<T>;
-    const previousResultPromise = PromiseUtils.synchronizationLocks.get(lock);
-    let previousState: PromiseStateType | undefined;
-    if (previousResultPromise !== undefined) {
-      previousState = await PromiseUtils.promiseState(previousResultPromise);
-    }
-    switch (previousState) {
-      case PromiseState.Pending: {  // concurrency
-        resultPromise = previousResultPromise!.then(result => operation(PromiseState.Pending, PromiseState.Fulfilled, result), error => operation(PromiseState.Pending, PromiseState.Rejected, error));
-        break;
-      }
-      case undefined: { // no concurrency and no history
-        // eslint-disable-next-line unicorn/no-useless-undefined
-        resultPromise = operation(undefined, undefined, undefined);
-        break;
-      }
-      default: {  // no concurrency but with history
-        resultPromise = operation(previousState, previousState, await previousResultPromise!.catch(error => error));
-        break;
-      }
-    }
+  backoff: Array<number> | Iterable<number> | ((attempt: number, previousResult: Result|undefined, previousError: TError|undefined) => number|undefined);
+  /**
+   * The predicate for deciding whether the job should be retried, same as the `shouldRetry` argument of {@link PromiseUtils.withRetry}.
+   * By default, a job is retried whenever the operation rejects with an error.
+   */
+  shouldRetry?: (previousError: TError|undefined, previousResult: Result|undefined, attempt: number) => boolean;
+  /**
+   * If true, a job waiting for its backoff does not occupy a slot of the parallelism.
+   * When the backoff has elapsed, the job is put at the back of the queue of jobs waiting for slots,
+   * which are the jobs already pulled from the iterator but not yet started. It defaults to false.
+   */
+  requeue?: boolean;
+};
 
-    PromiseUtils.synchronizationLocks.set(lock, resultPromise);
-    return resultPromise;
-  }
+/**
+ * Options for {@link PromiseUtils.inParallel}, {@link PromiseUtils.withConcurrency} and {@link PromiseUtils.inParallelSettled}.
+ *
+ * @template Data   The type of the job data.
+ * @template Result The type of the return value from the operation function.
+ * @template TError The type for the error that could be thrown from the operation function.
+ */
+export type InParallelOptions<Data, Result = any, TError = any> = {
+  /**
+   * If true, the function aborts and throws an error on the first failed operation.
+   * The signal passed to the operations that are still running is aborted, so that they can stop early.
+   */
+  abortOnError?: boolean;
+  /**
+   * If true, when aborting on error, the returned Promise rejects only after all the operations still running have settled,
+   * so that no side effect of them could land after the rejection. It defaults to false.
+   */
+  waitForInFlightJobs?: boolean;
+  /**
+   * If true, when aborting on error, reject with a {@link JobsAbortedError} telling which jobs were completed, failed and cancelled,
+   * instead of the error from the failed operation. It defaults to false.
+   */
+  throwJobsAbortedError?: boolean;
+  /**
+   * An optional `AbortSignal`. When it is aborted, the returned Promise rejects with the abort reason
+   * (normally an `AbortError`) immediately, and no further jobs will be pulled from the iterator.
+   * A signal linked to it is passed to the operation function as its third argument,
+   * which is the same signal when neither `abortOnError` nor `retry` is specified.
+   */
+  signal?: AbortSignal;
+  /**
+   * An optional {@link RateLimiter}, a permit is acquired from it before each job/operation starts, and before each retry of it.
+   * Jobs waiting for permits count towards the parallelism.
+   */
+  rateLimiter?: RateLimiter;
+  /**
+   * If specified, failed jobs are retried according to it, see {@link InParallelRetryOptions} for details.
+   * Only the outcome of the last attempt of each job is counted as the outcome of the job.
+   */
+  retry?: InParallelRetryOptions<Result, TError>;
+  /**
+   * An optional function returning the key of a job, such as the tenant it belongs to.
+   * When it is specified, no more than `perKeyLimit` jobs of the same key run at the same time,
+   * and jobs of saturated keys are skipped over (buffered) in favour of later jobs of other keys.
+   */
+  keyOf?: (job: Data, index: number) => unknown;
+  /**
+   * The maximum number of jobs of the same key running at the same time. It defaults to 1.
+   */
+  perKeyLimit?: number;
+  /**
+   * The maximum number of jobs waiting for their saturated keys that could be overtaken by the jobs after them. It defaults to 1000, and 0 keeps the jobs starting in order.
+   */
+  maxLookAhead?: number;
+  /**
+   * A hook called whenever a job starts or finishes, with the overall progress, for driving progress bars and dashboards.
+   */
+  onProgress?: (progress: InParallelProgress) => void;
+  /**
+   * A hook called when a job starts, right before the operation function is called.
+   */
+  onJobStart?: (event: { index: number; job: Data }) => void;
+  /**
+   * A hook called when a job finishes, with its outcome and how long it took.
+   */
+  onJobFinish?: (event: JobSettledResult<Data, Result, TError> & { durationMs: number }) => void;
+  /**
+   * The {@link Scheduler} for measuring durations and elapsed time. It defaults to {@link systemScheduler}.
+   */
+  scheduler?: Scheduler;
+};
 
+/**
+ * The error thrown by {@link PromiseUtils.withConcurrency} and {@link PromiseUtils.inParallel} (when `abortOnError` is true)
+ * on the first failed job if the `throwJobsAbortedError` option is true.
+ * It tells which jobs were completed, failed and cancelled, so that the caller knows what to clean up or retry.
+ *
+ * @template Data   The type of the job data.
+ * @template Result The type of the return value from the operation function.
+ * @template TError The type for the error that could be thrown from the operation function.
+ */
+export class JobsAbortedError<Data = any, Result = any, TError = any> extends Error {
   /**
-   * This is just another spelling of {@link PromiseUtils.synchronized}.
-   * @param lock The object (such as a string, a number, or `this` in a class) used to identify the lock.
-   * @param operation The function that performs the computation and returns a Promise.
-   * @returns The result of the operation function.
+   * Constructor
+   * @param error The error that caused the abort, normally the one from the first failed job.
+   * @param completed The jobs that fulfilled.
+   * @param failed The jobs that rejected before the abort, including the one that caused it,
+   *               and the jobs that rejected after the abort with errors other than the abort reason or an `AbortError`.
+   * @param cancelled The jobs that had been taken from the iterator but had not completed when the abort happened,
+   *                  except those that rejected afterwards with errors of their own.
+   *                  They might have been running, and their signal has been aborted.
    */
-  static async synchronised<T>(lock: any, operation: (previousState: PromiseStateType | undefined, previousSettledState: PromiseStateType | undefined, previousResult: any) => Promise<T>): Promise<T> {
-    return PromiseUtils.synchronized(lock, operation);
+  constructor(
+    readonly error: TError,
+    readonly completed: Array<JobSettledResult<Data, Result, TError>>,
+    readonly failed: Array<JobSettledResult<Data, Result, TError>>,
+    readonly cancelled: Array<{ index: number; job: Data }>,
+  ) {
+    const cause: any = error;
+    super(`Aborted after a job failed (${completed.length} completed, ${failed.length} failed, ${cancelled.length} cancelled): ${cause?.message ?? cause}`);
+    this.name = 'JobsAbortedError';
   }
+}
 
+/**
+ * A backend keeping locks outside of the current process, so that {@link PromiseUtils.synchronized}
+ * can coordinate operations across processes, such as Node workers on the same host.
+ *
+ * Locks are leases identified by a key: a lease expires after its TTL unless it is renewed,
+ * so that a lock held by a crashed process does not block the others forever.
+ * {@link InMemoryLockBackend} is an implementation within the current process,
+ * and `FileLockBackend` (in the `file-lock-backend` module) is an implementation based on lock files.
+ */
+export type LockBackend = {
   /**
-   * Runs an operation periodically with configurable intervals and stopping conditions.
-   *
-   * - `interval` may be a single number (ms), an array of numbers, or a function
-   *   that receives the iteration number (starting at 1) and returns the next
-   *   interval in milliseconds or `undefined` to stop.
-   * - If the interval array runs out of elements or the function returns `undefined`
-   *   (or a negative value), no further invocations will be scheduled.
-   *
-   * Options:
-   * - `maxExecutions` stop after N runs (inclusive).
-   * - `maxDurationMs` stop after elapsed ms since the first scheduled start.
-   * - `schedule` controls how the interval is measured:
-   *   - `'delayAfterEnd'`: wait the interval after the previous operation completes
-   *     before scheduling the next one (equivalent to a fixed delay between ends).
-   *   - `'delayBetweenStarts'`: keep start times on a regular schedule (interval measured
-   *     between the starts of successive operations).
-   *   The default schedule is `'delayBetweenStarts'`.
-   *
-   * Returns an object with `stop()` to cancel further executions and `done` which
-   * resolves when the periodic runner stops. If the provided `operation` throws or
-   * rejects, the `done` promise will reject with that error so callers can handle it.
-   *
-   * Note: The first invocation of `operation` is scheduled after the first interval
-   * elapses (i.e. this function does NOT call `operation` immediately). If you need
-   * an immediate run, invoke `operation(1)` yourself before calling `runPeriodically`.
-   *
-   * @template T The operation return type (ignored by the runner; used for typing).
-   * @param operation Function to run each iteration. Receives the iteration index (1-based).
-   * @param interval Number | number[] | ((iteration: number) => number|undefined) defining waits.
-   * @param options Optional configuration.
-   * @param options.maxExecutions Stop after N executions.
-   * @param options.maxDurationMs Stop after N milliseconds.
-   * @param options.schedule How to measure intervals: `'delayAfterEnd'` or `'delayBetweenStarts'`.
-   * @returns An object containing `stop()` to cancel further executions and `done` Promise
-   *          which resolves when the periodic runner stops (or rejects if the operation errors).
+   * Acquires the lock of a key, waiting until it is available.
+   * @param key The key identifying the lock.
+   * @param ttlMs How long (in milliseconds) the lease lasts unless it is renewed.
+   * @param options Options for this call.
+   * @param options.signal An optional `AbortSignal` for giving up waiting, in which case the returned Promise rejects with the abort reason.
+   * @returns A Promise of the token identifying the lease, which is needed for renewing and releasing it.
    */
-  static runPeriodically<T>(
-    operation: (iteration: number) => Promise<T> | T,
-    interval: number | Array<number> | ((iteration: number) => number | undefined),
-    options?: {
-      maxExecutions?: number;
-      maxDurationMs?: number;
-      schedule?: 'delayAfterEnd' | 'delayBetweenStarts';
-    },
-  ): { stop: () => void; done: Promise<void> } {
+  acquire(key: string, ttlMs: number, options?: { signal?: AbortSignal }): Promise<string>;
+  /**
+   * Extends a lease.
+   * @param key The key identifying the lock.
+   * @param token The token returned by `acquire(...)`.
+   * @param ttlMs How long (in milliseconds) the lease lasts from now unless it is renewed again.
+   * @returns A Promise of true if the lease has been extended, or false if it has been lost (for example, expired and taken by others).
+   */
+  renew(key: string, token: string, ttlMs: number): Promise<boolean>;
+  /**
+   * Releases a lease. It does nothing if the lease has been lost.
+   * @param key The key identifying the lock.
+   * @param token The token returned by `acquire(...)`.
+   */
+  release(key: string, token: string): Promise<void>;
+};
+
+/**
+ * Options for {@link PromiseUtils.synchronized}.
+ */
+export type SynchronizedOptions = {
+  /**
+   * How long (in milliseconds) the lock and the result of the operation are retained after the operation has settled
+   * while there is no other operation waiting for the lock, so that an operation coming within this period
+   * still has access to the state and result of this one.
+   * It defaults to 0, which means such a lock is forgotten as soon as the operation has settled,
+   * so that using many distinct values (such as request IDs) as locks does not leak memory.
+   * With {@link systemScheduler}, the timer for forgetting the lock does not keep the Node.js process running.
+   */
+  previousResultTtlMs?: number;
+  /**
+   * The {@link LockBackend} that the lock is acquired from around the operation,
+   * with the lease renewed periodically while the operation is running.
+   * It defaults to an {@link InMemoryLockBackend} shared by all the calls, which coordinates within the current process only.
+   * A backend such as `FileLockBackend` coordinates with other processes as well, in which case the lock must be a string or a number.
+   * Operations within the current process are still coordinated in memory,
+   * and the previous state and result passed to the operation are only about operations within the current process.
+   */
+  backend?: LockBackend;
+  /**
+   * The TTL (in milliseconds) of the leases acquired from `backend`. It defaults to 30000.
+   */
+  leaseTtlMs?: number;
+  /**
+   * How often (in milliseconds) the lease acquired from `backend` is renewed. It defaults to one third of `leaseTtlMs`.
+   * With {@link systemScheduler}, the renewal timer does not keep the Node.js process running.
+   */
+  renewIntervalMs?: number;
+  /**
+   * How long (in milliseconds) to wait for the lease from `backend` before giving up,
+   * in which case the operation is not run and the returned Promise rejects with a {@link LockTimeoutError}.
+   * By default, it waits until the lease is acquired.
+   */
+  acquireTimeoutMs?: number;
+  /**
+   * An optional `AbortSignal` for giving up waiting for the lease from `backend`,
+   * in which case the operation is not run and the returned Promise rejects with the abort reason.
+   * It does not affect the operation once it has started.
+   */
+  signal?: AbortSignal;
+  /**
+   * A hook called when the lease acquired from `backend` could not be renewed, which means that
+   * another process might be running an operation with the same lock at the same time.
+   * The operation is not interrupted, and no further renewals are attempted.
+   */
+  onLeaseLost?: (event: { lock: string; error?: any }) => void;
+  /**
+   * The {@link Scheduler} for the retention and renewal timers and measuring how long the operation has been running.
+   * It defaults to {@link systemScheduler}.
+   */
+  scheduler?: Scheduler;
+};
+
+/**
+ * The information about a lock in use, as returned by {@link PromiseUtils.listSynchronizationLocks}.
+ */
+export type SynchronizationLockInfo = {
+  /** The object used to identify the lock. */
+  lock: any;
+  /** The number of operations waiting for the lock, not including the one holding it. */
+  queueDepth: number;
+  /** How long (in milliseconds) the operation holding the lock has been running, undefined if the lock is between two operations. */
+  holderRunningMs?: number;
+};
+
+/**
+ * Options for {@link PromiseUtils.singleFlight}.
+ */
+export type SingleFlightOptions = {
+  /**
+   * How long (in milliseconds) a fulfilled result is still shared with callers coming after the operation has settled.
+   * It defaults to 0, which means that the next caller after settlement starts the operation again.
+   * Rejections are never shared after settlement.
+   * When the callers sharing the operation specify different values, the longest one applies.
+   * Callers coming after settlement do not extend the sharing.
+   * With {@link systemScheduler}, the timer for ending the sharing does not keep the Node.js process running.
+   */
+  shareResultForMs?: number;
+  /**
+   * An optional `AbortSignal` of this caller. When it is aborted, the Promise returned to this caller rejects with the abort reason
+   * (normally an `AbortError`), while the shared operation keeps running for the other callers.
+   * The shared operation is aborted only when all of its callers have aborted.
+   */
+  signal?: AbortSignal;
+  /**
+   * The {@link Scheduler} for the result sharing window. It defaults to {@link systemScheduler}.
+   * Only the one specified by the caller starting the operation applies.
+   */
+  scheduler?: Scheduler;
+};
+
+type SingleFlightEntry = {
+  promise: Promise<any>;
+  controller: AbortController;
+  /** The longest shareResultForMs of the callers coming before settlement */
+  shareResultForMs: number;
+  /** The number of callers that have not aborted */
+  callers: number;
+  settled: boolean;
+};
+
+type SynchronizationLockEntry = {
+  /** The key identifying the lock in the default lock backend, unique among the locks in memory */
+  key: string;
+  resultPromise?: Promise<any>;
+  /** The number of operations holding or waiting for the lock */
+  pending: number;
+  holderStartTime?: number;
+  holderScheduler?: Scheduler;
+  evictionTimer?: { scheduler: Scheduler; handle: unknown };
+};
+
+export abstract class PromiseUtils {
+  /**
+   * Executes an operation repeatedly and collects all the results.
+   * This function is very useful for many scenarios, such like client-side pagination.
+   *
+   * @example
+   * const domainNameObjects = await PromiseUtils.repeat(
+   *   pagingParam => apig.getDomainNames({limit: 500, ...pagingParam}).promise(),
+   *   response => response.position? {position: response.position} : null,
+   *   (collection, response) => collection.concat(response.items!),
+   *   [] as APIGateway.DomainName[],
+   * );
+   *
+   * @template Result The type of the operation result.
+   * @template Param The type of the input to the operation, typically a paging parameter.
+   * @template Collection The type of the collection returned by this function.
+   *
+   * @param operation A function that takes a parameter as input and returns a result. Typically, the parameter has optional fields to control paging.
+   * @param nextParameter A function for calculating the next parameter from the operation result.
+   *        Normally, this parameter controls paging.
+   *        This function should return null when no further invocation of the operation function is desired.
+   *        If further invocation is desired, the return value of this function can be a Promise or a non-Promise value.
+   * @param collect A function for merging the operation result into the collection.
+   * @param initialCollection The initial collection, which will be the first argument passed to the first invocation of the collect function.
+   * @param initialParameter The parameter for the first operation.
+   * @param options Options to control the function's behavior.
+   * @param options.signal An optional `AbortSignal`. When it is aborted, the returned Promise rejects with the abort reason
+   *        (normally an `AbortError`) and no further invocation of the operation function will be made.
+   *        The signal is also passed to the operation function as its second argument.
+   * @returns A promise that resolves to a collection of all the results returned by the operation function.
+   *
+   */
+  static async repeat<Result, Param, Collection>(
+    operation: (parameter: Partial<Param>, signal?: AbortSignal) => Promise<Result>,
+    nextParameter: (response: Result) => Partial<Param> | Promise<Partial<Param>> | null,
+    collect: (collection: Collection, result: Result) => Collection,
+    initialCollection: Collection,
+    initialParameter: Partial<Param> = {},
+    options?: {
+      signal?: AbortSignal;
+    },
+  ): Promise<Collection> {
+    const signal = options?.signal;
+    let collection = initialCollection;
+    let param: Partial<Param> = initialParameter;
+    do {
+      PromiseUtils.throwIfAborted(signal);
+      const result = await PromiseUtils.raceWithSignal(operation(param, signal), signal);
+      collection = collect(collection, result);
+      const paramOrPromise = nextParameter(result);
+      if (paramOrPromise === null) {
+        break;
+      }
+      param = await PromiseUtils.raceWithSignal(Promise.resolve(paramOrPromise), signal);
+    } while (true);
+    return collection;
+  }
+
+  /**
+   * Repeatedly performs an operation until a specified criteria is met.
+   *
+   * @example
+   * const result = await PromiseUtils.withRetry(() => doSomething(), [100, 200, 300, 500, 800, 1000]);
+   * const result2 = await PromiseUtils.withRetry(() => doSomething(), Array.from({length: 10}, (_v, i) => 1000 * Math.min(FIBONACCI_SEQUENCE[i], 10), err => err.statusCode === 429);
+   * const result3 = await PromiseUtils.withRetry(() => doSomething(), attempt => attempt <= 8 ? 1000 * Math.min(FIBONACCI_SEQUENCE[attempt - 1], 10) : undefined, err => err.statusCode === 429);
+   *
+   * @template Result Type of the operation result.
+   * @template TError Type of the possible error that could be generated by the operation.
+   *
+   * @param operation A function that outputs a Promise result. Typically, the operation does not use its arguments.
+   * @param backoff An array of retry backoff periods (in milliseconds), an iterable of them (such as a {@link Backoff}), or a function for calculating them.
+   *                If retry is desired, the specified backoff period is waited before the next call to the operation.
+   *                If the array or iterable runs out of elements or the function returns `undefined` or a negative number, no further calls to the operation will be made.
+   *                An iterable is iterated afresh for every call to this function.
+   *                The `attempt` argument passed to the backoff function starts from 1, as it is called immediately after the first attempt and before the first retry.
+   * @param shouldRetry A predicate function for deciding whether another call to the operation should occur.
+   *                    If this argument is not defined, a retry will occur whenever the operation rejects with an error.
+   *                    The `shouldRetry` function is evaluated before the `backoff`.
+   *                    The `attempt` argument passed to the shouldRetry function starts from 1.
+   * @param options Options to control the function's behavior, see {@link WithRetryOptions} for details.
+   * @param options.signal An optional `AbortSignal` for aborting the operation and any pending backoff.
+   *                       The signal is also passed to the operation function as its fourth argument.
+   * @param options.retryAfterMs A function for extracting the server-dictated delay (such as `Retry-After`) from the error or result.
+   * @param options.retryAfterMode Whether the server-dictated delay overrides the backoff (`'override'`, the default) or is used only when it is longer (`'atLeastBackoff'`).
+   * @param options.deadlineMs The overall deadline in milliseconds, `withRetry` gives up instead of waiting beyond it.
+   * @param options.onAttempt A hook called before each attempt.
+   * @param options.onRetry A hook called after a failed attempt, with the delay about to be waited.
+   * @param options.onSuccess A hook called on success, with the number of attempts made.
+   * @param options.onGiveUp A hook called on final give-up, with the number of attempts made and the reason.
+   * @param options.throwRetryExhaustedError If true, reject with a {@link RetryExhaustedError} carrying all the attempts when giving up.
+   * @param options.circuitBreaker An optional {@link CircuitBreaker} that every attempt goes through, an open circuit fails fast without further retries.
+   * @param options.perAttemptTimeoutMs The timeout applied to each attempt, a timed out attempt is aborted and fails with an {@link AttemptTimeoutError}.
+   * @param options.retryBudget An optional {@link RetryBudget} shared by many calls for capping retries globally.
+   * @param options.rateLimiter An optional {@link RateLimiter} from which a permit is acquired before every attempt.
+   * @param options.scheduler The {@link Scheduler} for delays, timeouts and elapsed time. It defaults to {@link systemScheduler}.
+   * @returns A promise of the operation result, potentially with retries applied.
+   */
+  static async withRetry<Result, TError = any>(
+    operation: (attempt: number, previousResult: Result|undefined, previousError: TError|undefined, signal?: AbortSignal) => Promise<Result>,
+    backoff: Array<number> | Iterable<number> | ((attempt: number, previousResult: Result|undefined, previousError: TError|undefined) => number|undefined),
+    shouldRetry: (previousError: TError|undefined, previousResult: Result|undefined, attempt: number) => boolean = (previousError, _previousResult, _attempt) => previousError !== undefined,
+    options?: WithRetryOptions<Result, TError>,
+  ): Promise<Result> {
+    type OperationOutcome = {result?: Result; error?: TError};
+    const signal = options?.signal;
+    const scheduler = options?.scheduler ?? systemScheduler;
+    const startTime = scheduler.now();
+    const backoffIterator = typeof backoff === 'function' ? undefined : backoff[Symbol.iterator]();
+    let totalDelayMs = 0;
+    let attempt = 0;
+    let outcome: OperationOutcome = {};
+    let giveUpReason: RetryGiveUpReason;
+    const attemptRecords = new Array<RetryAttemptRecord<Result, TError>>();
+    while (true) {
+      PromiseUtils.throwIfAborted(signal);
+      await options?.rateLimiter?.acquire(1, { signal });
+      attempt++;
+      options?.onAttempt?.({ attempt, elapsedMs: scheduler.now() - startTime });
+      const attemptStartTime = scheduler.now();
+      const { result: previousResult, error: previousError } = outcome;
+      const attemptTimeoutMs = options?.perAttemptTimeoutMs;
+      const attemptAbort = attemptTimeoutMs === undefined ? undefined : PromiseUtils.createLinkedAbortController(signal);
+      const runAttempt = () => {
+        if (attemptAbort === undefined) {
+          return operation(attempt, previousResult, previousError, signal);
+        }
+        const timeoutError = new AttemptTimeoutError(attempt, attemptTimeoutMs!);
+        return PromiseUtils.timeoutReject(operation(attempt, previousResult, previousError, attemptAbort.controller.signal), attemptTimeoutMs!, () => {
+          attemptAbort.controller.abort(timeoutError);
+          return timeoutError;
+        }, { scheduler });
+      };
+      const attemptPromise = options?.circuitBreaker ? options.circuitBreaker.execute(runAttempt) : runAttempt();
+      outcome = await PromiseUtils.raceWithSignal(
+        attemptPromise.then(result => ({ result })).catch(error => ({ error })),
+        signal,
+      ).finally(() => attemptAbort?.unlink());
+      const attemptRecord: RetryAttemptRecord<Result, TError> = { attempt, startTime: attemptStartTime, endTime: scheduler.now(), ...outcome };
+      attemptRecords.push(attemptRecord);
+      if (options?.circuitBreaker && outcome.error instanceof CircuitOpenError) {
+        giveUpReason = 'circuitOpen';
+        break;
+      }
+      if (!shouldRetry(outcome.error, outcome.result, attempt)) {
+        giveUpReason = 'shouldRetry';
+        break;
+      }
+      const backoffMs = typeof backoff === 'function' ? backoff(attempt, outcome.result, outcome.error) : PromiseUtils.nextOrUndefined(backoffIterator!);
+      if (backoffMs == null || backoffMs < 0) {
+        giveUpReason = 'backoffExhausted';
+        break;
+      }
+      let delayMs = backoffMs;
+      const retryAfterMs = options?.retryAfterMs?.(outcome.error, outcome.result, attempt);
+      if (retryAfterMs != null && retryAfterMs >= 0) {
+        delayMs = options?.retryAfterMode === 'atLeastBackoff' ? Math.max(backoffMs, retryAfterMs) : retryAfterMs;
+      }
+      if (options?.deadlineMs != null && scheduler.now() - startTime + delayMs > options.deadlineMs) {
+        giveUpReason = 'deadline';
+        break;
+      }
+      if (options?.retryBudget && !options.retryBudget.tryWithdraw()) {
+        giveUpReason = 'retryBudgetExhausted';
+        break;
+      }
+      options?.onRetry?.({ attempt, error: outcome.error, result: outcome.result, delayMs, elapsedMs: scheduler.now() - startTime });
+      attemptRecord.delayMs = delayMs;
+      await PromiseUtils.delayedResolve(delayMs, undefined, { signal, scheduler });
+      totalDelayMs += delayMs;
+    }
+    const elapsedMs = scheduler.now() - startTime;
+    if (outcome.error !== undefined) {
+      options?.onGiveUp?.({ attempts: attempt, error: outcome.error, reason: giveUpReason, elapsedMs, totalDelayMs });
+      if (options?.throwRetryExhaustedError) {
+        throw new RetryExhaustedError(attemptRecords, giveUpReason, elapsedMs, totalDelayMs);
+      }
+      throw outcome.error;
+    }
+    options?.retryBudget?.deposit();
+    options?.onSuccess?.({ attempts: attempt, result: outcome.result!, elapsedMs, totalDelayMs });
+    return outcome.result!;
+  }
+
+  /**
+   * Parses the value of a `Retry-After` HTTP header into a number of milliseconds.
+   * Both formats defined by the HTTP specification are supported: delay in seconds, and HTTP-date.
+   * It is typically used in the `retryAfterMs` option of {@link PromiseUtils.withRetry}.
+   *
+   * @example
+   * const response = await PromiseUtils.withRetry(
+   *   () => callApi(),
+   *   Backoff.exponential(100).withMaxAttempts(5),
+   *   (err) => err?.statusCode === 429 || err?.statusCode === 503,
+   *   { retryAfterMs: (err) => PromiseUtils.parseRetryAfter(err?.headers?.['retry-after']), deadlineMs: 30000 },
+   * );
+   *
+   * @param value The header value, or a number of seconds.
+   * @param now The current time in milliseconds since epoch, used for the HTTP-date format. It defaults to `Date.now()`.
+   * @returns The number of milliseconds to wait (never negative), or `undefined` if the value is absent or cannot be parsed.
+   */
+  static parseRetryAfter(value: string | number | null | undefined, now = Date.now()): number | undefined {
+    if (value == null) {
+      return;
+    }
+    if (typeof value === 'number' || /^\s*\d+(\.\d+)?\s*$/.test(value)) {
+      const seconds = Number(value);
+      return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+    }
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? undefined : Math.max(0, time - now);
+  }
+
+  /**
+   * Executes multiple jobs/operations with a specified level of concurrency.
+   * 
+   * Unlike `inParallel(...)`, this function may throw or reject an error when a job/operation fails.
+   * When an error is thrown, the function rejects immediately, and no further operations will be started.
+   * If you want all the operations to always be executed, use {@link PromiseUtils.inParallel} instead.
+   * 
+   * @example
+   * // At any time, there would be no more than 5 concurrency API calls. Error would be re-thrown immediately when it occurs.
+   * const attributes = await PromiseUtils.withConcurrency(5, topicArns, async (topicArn) => {
+   *   const topicAttributes = (await sns.getTopicAttributes({ TopicArn: topicArn }).promise()).Attributes!;
+   *   return topicAttributes;
+   * });
+   * 
+   *
+   * @template Data   The type of the job data, typically an Array.
+   * @template Result The type of the return value from the operation function.
+   *
+   * @param concurrency The number of jobs/operations to run concurrently, or an {@link AdaptiveConcurrencyLimit} that adjusts it at runtime.
+   * @param jobs The job data to be processed. This function can handle an infinite or unknown number of elements safely.
+   * @param operation The function that processes job data asynchronously.
+   * @param options Options to control the function's behavior.
+   * @param options.signal An optional `AbortSignal`. When it is aborted, the returned Promise rejects with the abort reason
+   *        (normally an `AbortError`) immediately, and no further jobs will be pulled from the iterator.
+   *        A signal linked to it is passed to the operation function as its third argument,
+   *        and it is also aborted when any job/operation fails, so that the jobs still running can stop early.
+   * @param options.waitForInFlightJobs If true, the returned Promise rejects only after all the jobs still running have settled.
+   * @param options.throwJobsAbortedError If true, reject with a {@link JobsAbortedError} telling which jobs were completed, failed and cancelled,
+   *        instead of the error from the failed job/operation.
+   * @param options.rateLimiter An optional {@link RateLimiter}, a permit is acquired from it before each job/operation starts and before each retry.
+   * @param options.retry If specified, failed jobs are retried like through {@link PromiseUtils.withRetry}, see {@link InParallelRetryOptions}.
+   *        With `requeue: true`, a job waiting for its backoff does not occupy a slot.
+   * @param options.keyOf An optional function returning the key of a job, such as the tenant it belongs to.
+   *        When it is specified, no more than `perKeyLimit` jobs of the same key run at the same time,
+   *        and jobs of saturated keys are skipped over (buffered) in favour of later jobs of other keys.
+   * @param options.perKeyLimit The maximum number of jobs of the same key running at the same time. It defaults to 1.
+   * @param options.maxLookAhead The maximum number of jobs waiting for their saturated keys that could be overtaken by the jobs after them. It defaults to 1000, and 0 keeps the jobs starting in order.
+   * @param options.onProgress A hook called whenever a job starts or finishes, with the counts, throughput and ETA.
+   * @param options.onJobStart A hook called when a job starts.
+   * @param options.onJobFinish A hook called when a job finishes, with its outcome and duration.
+   * @param options.scheduler The {@link Scheduler} for measuring durations and elapsed time. It defaults to {@link systemScheduler}.
+   * @returns A promise that resolves to an array containing the results from the operation function.
+   *          The results in the returned array are in the same order as the corresponding elements in the jobs array.
+   */
+  static async withConcurrency<Data, Result>(
+    concurrency: number | AdaptiveConcurrencyLimit,
+    jobs: Iterable<Data>,
+    operation: (job: Data, index: number, signal?: AbortSignal) => Promise<Result>,
+    options?: Omit<InParallelOptions<Data, Result>, 'abortOnError'>,
+  ): Promise<Array<Result>> {
+    return inParallel(concurrency, jobs, operation, { ...options, abortOnError: true });
+  }
+
+  /**
+   * Executes multiple jobs/operations in parallel. By default, all operations are executed regardless of any failures.
+   * In most cases, using {@link PromiseUtils.withConcurrency} might be more convenient.
+   *
+   * By default, this function does not throw or reject an error when any job/operation fails.
+   * Errors from operations are returned alongside results in the returned array.
+   * This function only resolves when all jobs/operations are settled (either resolved or rejected).
+   *
+   * If `options.abortOnError` is set to true, this function throws (or rejects with) an error immediately when any job/operation fails.
+   * In this mode, no further operations will be started after a failure occurs,
+   * and the signal passed to the operations still running is aborted.
+   *
+   * @example
+   * // Capture errors in the returned array
+   * const attributesAndPossibleErrors: Array<JobResult|JobError> = await PromiseUtils.inParallel(5, topicArns, async (topicArn) => {
+   *   const topicAttributes = (await sns.getTopicAttributes({ TopicArn: topicArn }).promise()).Attributes!;
+   *   return topicAttributes;
+   * });
+   * 
+   * // Abort on the first error
+   * let results: Array<JobResult>;
+   * try {
+   *   results = await PromiseUtils.inParallel(100, jobs, async (job) => processor.process(job), { abortOnError: true });
+   * } catch (error) {
+   *   // handle the error
+   * }
+   *
+   * // Let the parallelism adapt to throttling of the downstream
+   * const limit = new AdaptiveConcurrencyLimit({ initialLimit: 10, maxLimit: 100, isOverloaded: (error) => error.statusCode === 429 });
+   * const results2 = await PromiseUtils.inParallel(limit, jobs, async (job) => processor.process(job));
+   *
+   * // Run up to 20 jobs in total but no more than 2 jobs of the same tenant at the same time
+   * const results3 = await PromiseUtils.inParallel(20, jobs, async (job) => processor.process(job), { keyOf: (job) => job.tenantId, perKeyLimit: 2 });
+   *
+   * @template Data   The type of the job data, typically an Array.
+   * @template Result The type of the return value from the operation function.
+   * @template TError The type for the error that could be thrown from the operation function, defaults to `Result`.
+   *
+   * @param parallelism The number of jobs/operations to run concurrently, or an {@link AdaptiveConcurrencyLimit} that adjusts it at runtime.
+   * @param jobs The job data to be processed. This function can safely handle an infinite or unknown number of elements.
+   * @param operation The function that processes job data asynchronously.
+   * @param options Options to control the function's behavior.
+   * @param options.abortOnError If true, the function aborts and throws an error on the first failed operation.
+   * @param options.waitForInFlightJobs If true, when aborting on error, the returned Promise rejects only after all the jobs still running have settled.
+   * @param options.throwJobsAbortedError If true, when aborting on error, reject with a {@link JobsAbortedError}
+   *  telling which jobs were completed, failed and cancelled, instead of the error from the failed job/operation.
+   * @param options.signal An optional `AbortSignal`. When it is aborted, the returned Promise rejects with the abort reason
+   *  (normally an `AbortError`) immediately, and no further jobs will be pulled from the iterator.
+   *  The signal is also passed to the operation function as its third argument.
+   *  When `abortOnError` or `retry` is specified, a signal linked to it, which is also aborted on the first failure, is passed instead.
+   * @param options.rateLimiter An optional {@link RateLimiter}, a permit is acquired from it before each job/operation starts and before each retry.
+   *  Jobs waiting for permits count towards `parallelism`.
+   * @param options.retry If specified, failed jobs are retried like through {@link PromiseUtils.withRetry}, see {@link InParallelRetryOptions}.
+   *  With `requeue: true`, a job waiting for its backoff does not occupy a slot.
+   * @param options.keyOf An optional function returning the key of a job, such as the tenant it belongs to.
+   *  When it is specified, no more than `perKeyLimit` jobs of the same key run at the same time,
+   *  and jobs of saturated keys are skipped over (buffered) in favour of later jobs of other keys.
+   * @param options.perKeyLimit The maximum number of jobs of the same key running at the same time. It defaults to 1.
+   * @param options.maxLookAhead The maximum number of jobs waiting for their saturated keys that could be overtaken by the jobs after them. It defaults to 1000, and 0 keeps the jobs starting in order.
+   * @param options.onProgress A hook called whenever a job starts or finishes, with the counts, throughput and ETA.
+   * @param options.onJobStart A hook called when a job starts.
+   * @param options.onJobFinish A hook called when a job finishes, with its outcome and duration.
+   * @param options.scheduler The {@link Scheduler} for measuring durations and elapsed time. It defaults to {@link systemScheduler}.
+   * @returns A promise that resolves to an array containing the results of the operations.
+   *  Each element is either a fulfilled result or a rejected error/reason.
+   *  The results or errors in the returned array are in the same order as the corresponding elements in the jobs array.
+   */
+  static async inParallel<Data, Result, TError = Result>(
+    parallelism: number | AdaptiveConcurrencyLimit,
+    jobs: Iterable<Data>,
+    operation: (job: Data, index: number, signal?: AbortSignal) => Promise<Result>,
+    options?: InParallelOptions<Data, Result, TError>,
+  ): Promise<Array<Result | TError>> {
+    const settledResults = await PromiseUtils.runInParallel<Data, Result, TError>(parallelism, jobs, operation, options);
+    return settledResults.map(entry => entry.status === 'fulfilled' ? entry.value : entry.reason);
+  }
+
+  /**
+   * Executes multiple jobs/operations in parallel like {@link PromiseUtils.inParallel}, and returns the outcome of every job
+   * in the same shape as `Promise.allSettled(...)`, so that failures can never be confused with legitimate results.
+   * All operations are executed regardless of any failures.
+   *
+   * @example
+   * const { results, rejectedCount } = await PromiseUtils.inParallelSettled(5, topicArns, async (topicArn) => sns.getTopicAttributes({ TopicArn: topicArn }).promise());
+   * for (const entry of results) {
+   *   if (entry.status === 'rejected') {
+   *     console.log(`Failed to get the attributes of ${entry.job}:`, entry.reason);
+   *   }
+   * }
+   *
+   * @template Data   The type of the job data, typically an Array.
+   * @template Result The type of the return value from the operation function.
+   * @template TError The type for the error that could be thrown from the operation function.
+   *
+   * @param parallelism The number of jobs/operations to run concurrently, or an {@link AdaptiveConcurrencyLimit} that adjusts it at runtime.
+   * @param jobs The job data to be processed. This function can safely handle an infinite or unknown number of elements.
+   * @param operation The function that processes job data asynchronously.
+   * @param options Options to control the function's behavior.
+   * @param options.signal An optional `AbortSignal`. When it is aborted, the returned Promise rejects with the abort reason
+   *  (normally an `AbortError`) immediately, and no further jobs will be pulled from the iterator.
+   *  The signal is also passed to the operation function as its third argument.
+   * @param options.rateLimiter An optional {@link RateLimiter}, a permit is acquired from it before each job/operation starts and before each retry.
+   * @param options.retry If specified, failed jobs are retried like through {@link PromiseUtils.withRetry}, see {@link InParallelRetryOptions}.
+   *  With `requeue: true`, a job waiting for its backoff does not occupy a slot.
+   * @param options.keyOf An optional function returning the key of a job, such as the tenant it belongs to.
+   *  When it is specified, no more than `perKeyLimit` jobs of the same key run at the same time,
+   *  and jobs of saturated keys are skipped over (buffered) in favour of later jobs of other keys.
+   * @param options.perKeyLimit The maximum number of jobs of the same key running at the same time. It defaults to 1.
+   * @param options.maxLookAhead The maximum number of jobs waiting for their saturated keys that could be overtaken by the jobs after them. It defaults to 1000, and 0 keeps the jobs starting in order.
+   * @param options.onProgress A hook called whenever a job starts or finishes, with the counts, throughput and ETA.
+   * @param options.onJobStart A hook called when a job starts.
+   * @param options.onJobFinish A hook called when a job finishes, with its outcome and duration.
+   * @param options.scheduler The {@link Scheduler} for measuring durations and elapsed time. It defaults to {@link systemScheduler}.
+   * @returns A promise that resolves to the outcomes of all the jobs (in the same order as the jobs) and the counts of fulfilled and rejected ones.
+   */
+  static async inParallelSettled<Data, Result, TError = any>(
+    parallelism: number | AdaptiveConcurrencyLimit,
+    jobs: Iterable<Data>,
+    operation: (job: Data, index: number, signal?: AbortSignal) => Promise<Result>,
+    options?: Omit<InParallelOptions<Data, Result, TError>, 'abortOnError' | 'waitForInFlightJobs' | 'throwJobsAbortedError'>,
+  ): Promise<InParallelSettledResults<Data, Result, TError>> {
+    const results = await PromiseUtils.runInParallel<Data, Result, TError>(parallelism, jobs,
+      (job, index, signal) => new Promise<Result>(resolve => resolve(operation(job, index, signal))),
+      options);
+    const fulfilledCount = results.filter(result => result.status === 'fulfilled').length;
+    return { results, fulfilledCount, rejectedCount: results.length - fulfilledCount };
+  }
+
+  /**
+   * Executes multiple jobs/operations in parallel like {@link PromiseUtils.inParallel}, but streams the results.
+   *
+   * The jobs could come from an `Iterable` or an `AsyncIterable` (such as a paginated API or a Node.js readable stream),
+   * and the results are yielded from an async generator as soon as they are available:
+   * - When `options.order` is `'input'` (the default), results are yielded in the same order as the corresponding jobs.
+   * - When `options.order` is `'completion'`, results are yielded in the order the operations finish.
+   *
+   * Back-pressure is applied: the number of jobs that have been pulled from the input but whose results
+   * have not been consumed never exceeds `parallelism`, so the memory usage does not grow with the number of jobs.
+   * When the consumer stops iterating (for example, by `break` in `for await`), no further jobs will be pulled,
+   * the input iterator is closed, and the signals passed to the operations still running are aborted.
+   *
+   * Like `inParallel`, by default errors from operations are yielded alongside results.
+   * If `options.abortOnError` is set to true, the generator throws the first error it is about to yield,
+   * and no further jobs will be pulled after any operation has failed.
+   *
+   * @example
+   * for await (const user of PromiseUtils.inParallelStream(5, listUserIdsPageByPage(), async (id) => fetchUser(id), { abortOnError: true })) {
+   *   await saveUser(user);
+   * }
+   *
+   * @template Data   The type of the job data.
+   * @template Result The type of the return value from the operation function.
+   * @template TError The type for the error that could be thrown from the operation function, defaults to `Result`.
+   *
+   * @param parallelism The number of jobs/operations to run concurrently.
+   * @param jobs The job data to be processed, either an `Iterable` or an `AsyncIterable`. It could be infinite.
+   * @param operation The function that processes job data asynchronously.
+   * @param options Options to control the function's behavior.
+   * @param options.order The order of the results: `'input'` (default) or `'completion'`.
+   * @param options.abortOnError If true, the generator throws the first error from the operations.
+   * @param options.signal An optional `AbortSignal`. When it is aborted, the generator throws the abort reason
+   *  (normally an `AbortError`) immediately, and no further jobs will be pulled.
+   *  A signal linked to it is passed to the operation function as its third argument.
+   * @returns An async generator of the results of the operations, each of which is either a fulfilled result or a rejected error/reason.
+   */
+  static async * inParallelStream<Data, Result, TError = Result>(
+    parallelism: number,
+    jobs: Iterable<Data> | AsyncIterable<Data>,
+    operation: (job: Data, index: number, signal?: AbortSignal) => Promise<Result>,
+    options?: {
+      order?: 'input' | 'completion';
+      abortOnError?: boolean;
+      signal?: AbortSignal;
+    },
+  ): AsyncGenerator<Result | TError, void, undefined> {
+    type JobOutcome = { index: number; result?: Result; error?: TError; failed: boolean };
+    parallelism = Math.max(1, Math.floor(parallelism));
+    const signal = options?.signal;
+    PromiseUtils.throwIfAborted(signal);
+    const iterator: Iterator<Data> | AsyncIterator<Data> = typeof (jobs as AsyncIterable<Data>)[Symbol.asyncIterator] === 'function'
+      ? (jobs as AsyncIterable<Data>)[Symbol.asyncIterator]()
+      : (jobs as Iterable<Data>)[Symbol.iterator]();
+    const { controller, unlink } = PromiseUtils.createLinkedAbortController(signal);
+    const running = new Map<number, Promise<JobOutcome>>();
+    const finished = new Map<number, JobOutcome>();
+    let pulling: Promise<IteratorResult<Data>> | undefined;
+    let exhausted = false;
+    let failed = false;
+    let nextIndex = 0;
+    let nextIndexToYield = 0;
+
+    try {
+      while (true) {
+        if (pulling === undefined && !exhausted && !failed && running.size + finished.size < parallelism) {
+          pulling = Promise.resolve(iterator.next());
+        }
+
+        const outcome = options?.order === 'completion' ? finished.values().next().value : finished.get(nextIndexToYield);
+        if (outcome) {
+          finished.delete(outcome.index);
+          nextIndexToYield++;
+          if (outcome.failed && options?.abortOnError) {
+            throw outcome.error;
+          }
+          yield (outcome.failed ? outcome.error : outcome.result) as Result | TError;
+          continue;
+        }
+
+        if (pulling === undefined && running.size === 0) {
+          break;
+        }
+        type Event = { pulled: IteratorResult<Data> } | { settled: JobOutcome };
+        const event = await PromiseUtils.raceWithSignal(Promise.race<Event>([
+          ...(pulling ? [pulling.then(pulled => ({ pulled }))] : []),
+          ...[...running.values()].map(promise => promise.then(settled => ({ settled }))),
+        ]), signal);
+        if ('pulled' in event) {
+          pulling = undefined;
+          if (event.pulled.done) {
+            exhausted = true;
+          } else {
+            const job = event.pulled.value;
+            const index = nextIndex++;
+            running.set(index, Promise.resolve()
+              .then(() => operation(job, index, controller.signal))
+              .then(result => ({ index, result, failed: false }), error => ({ index, error, failed: true })));
+          }
+        } else {
+          running.delete(event.settled.index);
+          finished.set(event.settled.index, event.settled);
+          failed = failed || (event.settled.failed && !!options?.abortOnError);
+        }
+      }
+    } finally {
+      if (!exhausted) {
+        if (pulling === undefined) {
+          await iterator.return?.();
+        } else {
+          // an async iterator should not be closed while a pull is still pending
+          pulling.then(() => iterator.return?.()).catch(() => { /* closing it is only a courtesy */ });
+        }
+      }
+      if (running.size > 0) {
+        controller.abort(new DOMException('No more results are needed', 'AbortError'));
+      }
+      unlink();
+    }
+  }
+
+  /**
+   * Creates a cancellable timer that will resolve after a specified number of milliseconds.
+   *
+   * The returned object contains:
+   * - `stop()` to cancel the scheduled resolution (if called before the timer fires). Calling
+   *   `stop()` prevents the promise from being settled by this timer.
+   * - `promise` which will resolve with the supplied `result` (or the value returned by the
+   *   `result` function) after `ms` milliseconds unless `stop()` is called first.
+   *
+   * Note: If the `result` is a function that returns a Promise, the returned `promise` will
+   * resolve with that Promise's resolution (i.e. it behaves like resolving with a PromiseLike).
+   *
+   * If `options.signal` is aborted before the timer fires, the timer is cleared and the `promise`
+   * rejects with the abort reason (normally an `AbortError`).
+   *
+   * @param ms The number of milliseconds after which the scheduled resolution will occur.
+   * @param result The result to be resolved by the Promise, or a function that supplies the result.
+   * @param options Options to control the function's behavior.
+   * @param options.signal An optional `AbortSignal` for cancelling the timer and rejecting the `promise`.
+   * @param options.scheduler The {@link Scheduler} for the timer. It defaults to {@link systemScheduler}.
+   * @returns An object with `stop()` and `promise`.
+   */
+  static cancellableDelayedResolve<T>(ms: number, result?: T | PromiseLike<T> | (() => (T | PromiseLike<T>)), options?: { signal?: AbortSignal; scheduler?: Scheduler }): { stop: () => void; promise: Promise<T> } {
+    const signal = options?.signal;
+    const scheduler = options?.scheduler ?? systemScheduler;
+    let stopped = false;
+    let timer: unknown;
+    let onAbort: (() => void) | undefined;
+
+    const stop = () => {
+      if (stopped) return;
+      stopped = true;
+      if (timer !== undefined) {
+        scheduler.clearTimeout(timer);
+        timer = undefined;
+      }
+      if (onAbort) {
+        signal!.removeEventListener('abort', onAbort);
+        onAbort = undefined;
+      }
+    };
+
+    const promise = new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        stopped = true;
+        reject(PromiseUtils.abortReason(signal));
+        return;
+      }
+      timer = scheduler.setTimeout(() => {
+        timer = undefined;
+        if (stopped) return;
+        stop();
+        resolve(
+          typeof result === 'function' ? (result as (() => T | PromiseLike<T>))() : result as T | PromiseLike<T>,
+        );
+      }, ms);
+      if (signal) {
+        onAbort = () => {
+          stop();
+          reject(PromiseUtils.abortReason(signal));
+        };
+        signal.addEventListener('abort', onAbort);
+      }
+    });
+
+    return { stop, promise };
+  }
+
+  /**
+   * Creates a Promise that resolves after a specified number of milliseconds.
+   *
+   * The `result` argument may be:
+   * - a value to resolve with,
+   * - a PromiseLike whose resolution will be adopted by the returned Promise, or
+   * - a function which is invoked when the timer fires and may return a value or a PromiseLike.
+   *
+   * If `result` is a function, it is called when the timer elapses; if it returns a Promise,
+   * the returned Promise will adopt that Promise's outcome.
+   *
+   * @param ms The number of milliseconds after which the created Promise will resolve.
+   * @param result The result to be resolved by the Promise, or a function that supplies the result.
+   * @param options Options to control the function's behavior.
+   * @param options.signal An optional `AbortSignal`. When it is aborted before the timer fires, the timer is cleared
+   *        and the returned Promise rejects with the abort reason (normally an `AbortError`).
+   * @param options.scheduler The {@link Scheduler} for the timer. It defaults to {@link systemScheduler}.
+   * @returns A Promise that resolves with the specified result after the specified delay.
+   */
+  static delayedResolve<T>(ms: number, result?: T | PromiseLike<T> | (() => (T | PromiseLike<T>)), options?: { signal?: AbortSignal; scheduler?: Scheduler }): Promise<T> {
+    return PromiseUtils.cancellableDelayedResolve(ms, result, options).promise;
+  }
+
+  /**
+   * Creates a cancellable timer that will reject after a specified number of milliseconds.
+   *
+   * The returned object contains:
+   * - `stop()` to cancel the scheduled rejection (if called before the timer fires). Calling
+   *   `stop()` prevents the promise from being settled by this timer.
+   * - `promise` which will reject with the supplied `reason` (or the value returned by the
+   *   `reason` function) after `ms` milliseconds unless `stop()` is called first.
+   *
+   * If the `reason` is a PromiseLike that rejects, its rejection value will be used as the rejection reason.
+   *
+   * If `options.signal` is aborted before the timer fires, the timer is cleared and the `promise`
+   * rejects with the abort reason (normally an `AbortError`) instead.
+   *
+   * @param ms The number of milliseconds after which the scheduled rejection will occur.
+   * @param reason The reason for the rejection, or a function that supplies the reason.
+   * @param options Options to control the function's behavior.
+   * @param options.signal An optional `AbortSignal` for cancelling the timer.
+   * @param options.scheduler The {@link Scheduler} for the timer. It defaults to {@link systemScheduler}.
+   * @returns An object with `stop()` and `promise`.
+   */
+  static cancellableDelayedReject<T = never, R = any>(ms: number, reason: R | PromiseLike<R> | (() => R|PromiseLike<R>), options?: { signal?: AbortSignal; scheduler?: Scheduler }): { stop: () => void; promise: Promise<T> } {
+    const signal = options?.signal;
+    const scheduler = options?.scheduler ?? systemScheduler;
+    let stopped = false;
+    let timer: unknown;
+    let onAbort: (() => void) | undefined;
+
+    const stop = () => {
+      if (stopped) return;
+      stopped = true;
+      if (timer !== undefined) {
+        scheduler.clearTimeout(timer);
+        timer = undefined;
+      }
+      if (onAbort) {
+        signal!.removeEventListener('abort', onAbort);
+        onAbort = undefined;
+      }
+    };
+
+    const promise = new Promise<T>((_resolve, reject) => {
+      if (signal?.aborted) {
+        stopped = true;
+        reject(PromiseUtils.abortReason(signal));
+        return;
+      }
+      timer = scheduler.setTimeout(() => {
+        timer = undefined;
+        if (stopped) return;
+        stop();
+        const r = typeof reason === 'function' ? (reason as (() => R|PromiseLike<R>))() : reason as R|PromiseLike<R>;
+        // Resolve the possibly-PromiseLike `r` and reject the outer promise with either
+        // the resolved value or the rejection reason of `r`.
+        Promise.resolve(r).then(reject, reject);
+      }, ms);
+      if (signal) {
+        onAbort = () => {
+          stop();
+          reject(PromiseUtils.abortReason(signal));
+        };
+        signal.addEventListener('abort', onAbort);
+      }
+    });
+
+    return { stop, promise };
+  }
+
+  /**
+   * Creates a Promise that rejects after a specified number of milliseconds.
+   *
+   * The `reason` argument may be:
+   * - a value to reject with,
+   * - a PromiseLike whose rejection will be adopted by the returned Promise, or
+   * - a function which is invoked when the timer fires and may return a value or a PromiseLike.
+   *
+   * If `reason` is a function, it is called when the timer elapses; if it returns a Promise,
+   * the returned Promise will reject with that Promise's rejection reason (or reject with the
+   * returned value if it resolves).
+   *
+   * @param ms The number of milliseconds after which the created Promise will reject.
+   * @param reason The reason for the rejection, or a function that supplies the reason.
+   * @param options Options to control the function's behavior.
+   * @param options.signal An optional `AbortSignal`. When it is aborted before the timer fires, the timer is cleared
+   *        and the returned Promise rejects with the abort reason (normally an `AbortError`) instead.
+   * @param options.scheduler The {@link Scheduler} for the timer. It defaults to {@link systemScheduler}.
+   * @returns A Promise that rejects with the specified reason after the specified delay.
+   */
+  static delayedReject<T = never, R = any>(ms: number, reason: R | PromiseLike<R> | (() => R|PromiseLike<R>), options?: { signal?: AbortSignal; scheduler?: Scheduler }): Promise<T> {
+    return PromiseUtils.cancellableDelayedReject(ms, reason, options).promise;
+  }
+
+  /**
+   * Applies a timeout to a Promise or a function that returns a Promise.
+   * If the timeout occurs, the returned Promise resolves to the specified result.
+   * If the timeout does not occur, the returned Promise resolves or rejects based on the outcome of the original Promise.
+   * If the `result` parameter is a function and the timeout does not occur, the function will not be called.
+   * Note: The rejection of the `operation` parameter is not handled by this function. 
+   * You may want to handle it outside this function to avoid warnings like "(node:4330) PromiseRejectionHandledWarning: Promise rejection was handled asynchronously."
+   *
+   * @param operation The original Promise or a function that returns a Promise to which the timeout will be applied.
+   *                  If it is a function, `options.signal` is passed to it.
+   * @param ms The number of milliseconds for the timeout.
+   * @param result The result to resolve with if the timeout occurs, or a function that supplies the result.
+   * @param options Options to control the function's behavior.
+   * @param options.signal An optional `AbortSignal`. When it is aborted before the original Promise settles,
+   *                       the timer is cleared and the returned Promise rejects with the abort reason (normally an `AbortError`).
+   * @param options.scheduler The {@link Scheduler} for the timer. It defaults to {@link systemScheduler}.
+   * @returns A new Promise that resolves to the specified result if the timeout occurs.
+   */
+  static timeoutResolve<T>(operation: Promise<T> | ((signal?: AbortSignal) => Promise<T>), ms: number, result?: T | PromiseLike<T> | (() => (T | PromiseLike<T>)) | undefined, options?: { signal?: AbortSignal; scheduler?: Scheduler }): Promise<T> {
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      return Promise.reject(PromiseUtils.abortReason(signal));
+    }
+    const promise = typeof operation === 'function' ? operation(signal) : operation;
+    const { stop, promise: timeoutPromise } = PromiseUtils.cancellableDelayedResolve(
+      ms,
+      () => PromiseUtils.promiseState(promise)
+              .then(state => state === PromiseState.Pending ?
+                  (typeof result === 'function' ? (result as () => T|PromiseLike<T>|undefined)() : result) :
+                  {} as any),
+      { signal, scheduler: options?.scheduler },
+    );
+    promise.then(() => stop(), () => stop());
+    return Promise.race([
+      promise,
+      timeoutPromise,
+    ]);
+  }
+
+  /**
+   * Applies a timeout to a Promise or a function that returns a Promise.
+   * If the timeout occurs, the returned Promise rejects with the specified reason.
+   * If the timeout does not occur, the returned Promise resolves or rejects based on the outcome of the original Promise.
+   * If the `rejectReason` parameter is a function and the timeout does not occur, the function will not be called.
+   * Note: The rejection of the `operation` parameter is not handled by this function. You may want to handle it outside this function to avoid warnings like "(node:4330) PromiseRejectionHandledWarning: Promise rejection was handled asynchronously."
+   *
+   * @param operation The original Promise or a function that returns a Promise to which the timeout will be applied.
+   *                  If it is a function, `options.signal` is passed to it.
+   * @param ms The number of milliseconds for the timeout.
+   * @param rejectReason The reason to reject with if the timeout occurs, or a function that supplies the reason.
+   * @param options Options to control the function's behavior.
+   * @param options.signal An optional `AbortSignal`. When it is aborted before the original Promise settles,
+   *                       the timer is cleared and the returned Promise rejects with the abort reason (normally an `AbortError`).
+   * @param options.scheduler The {@link Scheduler} for the timer. It defaults to {@link systemScheduler}.
+   * @returns A new Promise that rejects with the specified reason if the timeout occurs.
+   */
+  static timeoutReject<T = never, R = any>(operation: Promise<T> | ((signal?: AbortSignal) => Promise<T>), ms: number, rejectReason: R | PromiseLike<R> | (() => R|PromiseLike<R>), options?: { signal?: AbortSignal; scheduler?: Scheduler }): Promise<T> {
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      return Promise.reject(PromiseUtils.abortReason(signal));
+    }
+    const promise = typeof operation === 'function' ? operation(signal) : operation;
+    const { stop, promise: timeoutPromise } = PromiseUtils.cancellableDelayedReject<T, R>(
+      ms,
+      () => PromiseUtils.promiseState(promise)
+              .then(state => state === PromiseState.Pending ?
+                  (typeof rejectReason === 'function' ? (rejectReason as () => R|PromiseLike<R>)() : rejectReason) :
+                  {} as any),
+      { signal, scheduler: options?.scheduler },
+    );
+    promise.then(() => stop(), () => stop());
+    return Promise.race([
+      promise,
+      timeoutPromise,
+    ]);
+  }
+
+  /**
+   * Executes hedged (speculative) attempts of an operation for reducing tail latency.
+   *
+   * The first attempt starts immediately. If it has not succeeded within the first delay, another attempt is started,
+   * and so on, until `maxHedges` extra attempts have been started or the delays run out.
+   * If an attempt fails, the next attempt (if any) is started immediately without waiting for the rest of the delay.
+   * The first attempt that succeeds wins, and the signals passed to all the other attempts are aborted
+   * so that the losers can be cancelled.
+   *
+   * @example
+   * // start a second request if the first one has not completed within 200ms
+   * const { result, attempt } = await PromiseUtils.hedge((_attempt, signal) => fetch(url, { signal }), { delays: 200 });
+   *
+   * @template T The type of the operation result.
+   *
+   * @param operation The function that performs the operation. It receives the attempt number (starting from 1)
+   *                  and an `AbortSignal` that is aborted when the attempt loses or when `options.signal` is aborted.
+   * @param options Options to control the function's behavior.
+   * @param options.delays The delay (in milliseconds) before starting each extra attempt, measured from the start of the previous attempt.
+   *                       It could be a single number, an array, or an iterable (such as a {@link Backoff}).
+   * @param options.maxHedges The maximum number of extra attempts. It defaults to the length of `delays` if it is an array, otherwise 1.
+   * @param options.signal An optional `AbortSignal`. When it is aborted, all the attempts are aborted, pending timers are cleared,
+   *                       and the returned Promise rejects with the abort reason (normally an `AbortError`).
+   * @param options.scheduler The {@link Scheduler} for the hedge timers. It defaults to {@link systemScheduler}.
+   * @returns A Promise that resolves to the result of the winning attempt and the attempt number of it,
+   *          or rejects with an `AggregateError` containing the errors from all the attempts if all of them failed.
+   */
+  static hedge<T>(
+    operation: (attempt: number, signal: AbortSignal) => Promise<T>,
+    options: {
+      delays: number | Array<number> | Iterable<number>;
+      maxHedges?: number;
+      signal?: AbortSignal;
+      scheduler?: Scheduler;
+    },
+  ): Promise<{ result: T; attempt: number }> {
+    const { delays, signal } = options;
+    const maxAttempts = 1 + (options.maxHedges ?? (Array.isArray(delays) ? delays.length : 1));
+    const delayIterator = typeof delays === 'number' ? undefined : delays[Symbol.iterator]();
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(PromiseUtils.abortReason(signal));
+        return;
+      }
+      const controllers = new Array<AbortController>();
+      const errors = new Array<any>();
+      let settled = false;
+      let running = 0;
+      let nextHedge: { stop: () => void } | undefined;
+
+      const settle = () => {
+        settled = true;
+        nextHedge?.stop();
+        nextHedge = undefined;
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        settle();
+        const reason = PromiseUtils.abortReason(signal!);
+        for (const controller of controllers) {
+          controller.abort(reason);
+        }
+        reject(reason);
+      };
+      const scheduleNextHedge = () => {
+        if (controllers.length >= maxAttempts) {
+          return;
+        }
+        const delayMs = delayIterator ? PromiseUtils.nextOrUndefined(delayIterator) : delays as number;
+        if (delayMs == null || delayMs < 0) {
+          return;
+        }
+        const timer = PromiseUtils.cancellableDelayedResolve<void>(delayMs, undefined, { scheduler: options.scheduler });
+        nextHedge = timer;
+        timer.promise.then(() => {
+          nextHedge = undefined;
+          startAttempt();
+        });
+      };
+      const startAttempt = () => {
+        const controller = new AbortController();
+        controllers.push(controller);
+        const attempt = controllers.length;
+        running++;
+        Promise.resolve().then(() => operation(attempt, controller.signal)).then(
+          result => {
+            running--;
+            if (settled) return;
+            settle();
+            for (const other of controllers) {
+              if (other !== controller) {
+                other.abort(new DOMException('Another hedged attempt has succeeded', 'AbortError'));
+              }
+            }
+            resolve({ result, attempt });
+          },
+          error => {
+            running--;
+            if (settled) return;
+            errors[attempt - 1] = error;
+            if (nextHedge) {
+              // no point waiting for the rest of the delay
+              nextHedge.stop();
+              nextHedge = undefined;
+              startAttempt();
+            } else if (running === 0) {
+              settle();
+              reject(new AggregateError(errors, `All ${controllers.length} hedged attempt(s) failed`));
+            }
+          },
+        );
+        scheduleNextHedge();
+      };
+
+      signal?.addEventListener('abort', onAbort);
+      startAttempt();
+    });
+  }
+
+  /**
+   * Retrieves the state of the specified Promise.
+   * Note: The returned value is a Promise that resolves immediately.
+   *
+   * @param p The Promise whose state is to be determined.
+   * @returns A Promise that resolves immediately with the state of the input Promise.
+   */
+  static promiseState(p: Promise<any>): Promise<PromiseStateType> {
+    const t = {};
+    return Promise.race([p, t])
+      .then(v => (v === t) ? PromiseState.Pending : PromiseState.Fulfilled, () => PromiseState.Rejected);
+  }
+
+  /**
+   * Gets the reason of an aborted signal, see {@link abortReasonOf}.
+   * @param signal The aborted signal.
+   * @returns The abort reason.
+   */
+  private static abortReason(signal: AbortSignal): any {
+    return abortReasonOf(signal);
+  }
+
+  /**
+   * Throws the abort reason if the signal has been aborted.
+   * @param signal The signal to check, it could be undefined.
+   */
+  private static throwIfAborted(signal: AbortSignal | undefined): void {
+    if (signal?.aborted) {
+      throw PromiseUtils.abortReason(signal);
+    }
+  }
+
+  /**
+   * Races a Promise against an abort signal.
+   * The event listener added to the signal is removed as soon as either side settles.
+   * @param promise The Promise to race.
+   * @param signal The signal, if it is undefined the original Promise is returned.
+   * @returns A Promise that settles as the original Promise does, or rejects with the abort reason when the signal is aborted first.
+   */
+  private static raceWithSignal<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+    if (!signal) {
+      return promise;
+    }
+    return new Promise<T>((resolve, reject) => {
+      if (signal.aborted) {
+        reject(PromiseUtils.abortReason(signal));
+        return;
+      }
+      const onAbort = () => reject(PromiseUtils.abortReason(signal));
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(
+        result => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      );
+    });
+  }
+
+  /**
+   * Tells whether an error is caused by aborting, that is, it is the abort reason of the signal or an `AbortError`.
+   * @param error The error.
+   * @param signal The signal, it could be undefined.
+   * @returns true if the error is caused by aborting.
+   */
+  private static isAbortedBy(error: any, signal: AbortSignal | undefined): boolean {
+    return (signal?.aborted === true && error === signal.reason) || error?.name === 'AbortError';
+  }
+
+  /**
+   * Creates an AbortController that gets aborted (with the same reason) when the parent signal is aborted.
+   * @param parent The parent signal, it could be undefined.
+   * @returns The controller, and a function for removing the event listener from the parent signal once the controller is no longer needed.
+   */
+  private static createLinkedAbortController(parent: AbortSignal | undefined): { controller: AbortController; unlink: () => void } {
+    const controller = new AbortController();
+    if (!parent) {
+      return { controller, unlink: () => { /* nothing to unlink */ } };
+    }
+    if (parent.aborted) {
+      controller.abort(PromiseUtils.abortReason(parent));
+      return { controller, unlink: () => { /* nothing to unlink */ } };
+    }
+    const onAbort = () => controller.abort(PromiseUtils.abortReason(parent));
+    parent.addEventListener('abort', onAbort, { once: true });
+    return { controller, unlink: () => parent.removeEventListener('abort', onAbort) };
+  }
+
+  /**
+   * Runs the jobs in parallel, the shared implementation of {@link PromiseUtils.inParallel} and its siblings.
+   * @returns The outcomes of all the jobs, in the same order as the jobs.
+   */
+  private static async runInParallel<Data, Result, TError>(
+    parallelism: number | AdaptiveConcurrencyLimit,
+    jobs: Iterable<Data>,
+    operation: (job: Data, index: number, signal?: AbortSignal) => Promise<Result>,
+    options?: InParallelOptions<Data, Result, TError>,
+  ): Promise<Array<JobSettledResult<Data, Result, TError>>> {
+    const signal = options?.signal;
+    const rateLimiter = options?.rateLimiter;
+    PromiseUtils.throwIfAborted(signal);
+    const retry = options?.retry;
+    // when aborting on error or retrying, the operations get a signal that is also aborted on the first failure
+    const jobsAbort = options?.abortOnError || retry ? PromiseUtils.createLinkedAbortController(signal) : undefined;
+    const jobSignal = jobsAbort ? jobsAbort.controller.signal : signal;
+    const keyOf = options?.keyOf;
+    const perKeyLimit = Math.max(1, Math.floor(options?.perKeyLimit ?? 1));
+    const maxLookAhead = options?.maxLookAhead ?? 1000;
+    if (!Number.isInteger(maxLookAhead) || maxLookAhead < 0) {
+      throw new RangeError(`maxLookAhead must be a non-negative integer, but it is ${maxLookAhead}`);
+    }
+    const scheduler = options?.scheduler ?? systemScheduler;
+    const total = Array.isArray(jobs) ? jobs.length : ((jobs instanceof Set || jobs instanceof Map) ? jobs.size : undefined);
+    const startTime = scheduler.now();
+    const jobResults = new Array<JobSettledResult<Data, Result, TError>>();
+    let startedCount = 0;
+    let completedCount = 0;
+    let failedCount = 0;
+    let index = 0;
+    let exhausted = false;
+    let failed = false;
+    const iterator = jobs[Symbol.iterator]();
+    // jobs waiting for slots, including those requeued by retry which have `resume` defined
+    const lookAheadBuffer = new Array<{ job: Data; index: number; key: unknown; resume?: () => void }>();
+    // the number of jobs in the look-ahead buffer because their keys are saturated, excluding those requeued by retry
+    let skippedCount = 0;
+    const runningPerKey = new Map<unknown, number>();
+    const inFlightJobs = new Map<number, { index: number; job: Data }>();
+    const cancelledJobs = new Array<{ index: number; job: Data }>();
+    const isEligible = (key: unknown) => keyOf === undefined || (runningPerKey.get(key) ?? 0) < perKeyLimit;
+    // takes the earliest job allowed to start, either from the look-ahead buffer or newly pulled from the iterator
+    const takeNextJob = () => {
+      const bufferedIndex = lookAheadBuffer.findIndex(entry => isEligible(entry.key));
+      if (bufferedIndex !== -1) {
+        const [bufferedEntry] = lookAheadBuffer.splice(bufferedIndex, 1);
+        if (bufferedEntry.resume === undefined) {
+          skippedCount--;
+        }
+        return bufferedEntry;
+      }
+      // once more than maxLookAhead jobs are waiting for their keys, the last one blocks those after it
+      while (!exhausted && skippedCount <= maxLookAhead) {
+        const iteratorResult = iterator.next();
+        if (iteratorResult.done) {
+          exhausted = true;
+          break;
+        }
+        const job = iteratorResult.value;
+        const jobIndex = index++;
+        const entry = { job, index: jobIndex, key: keyOf?.(job, jobIndex) };
+        if (isEligible(entry.key)) {
+          return entry;
+        }
+        lookAheadBuffer.push(entry);
+        skippedCount++;
+      }
+      return;
+    };
+    const reportProgress = () => {
+      if (!options?.onProgress) {
+        return;
+      }
+      const elapsedMs = scheduler.now() - startTime;
+      options.onProgress({
+        started: startedCount,
+        completed: completedCount,
+        failed: failedCount,
+        inFlight: startedCount - completedCount,
+        total,
+        elapsedMs,
+        throughputPerSecond: elapsedMs > 0 ? completedCount * 1000 / elapsedMs : 0,
+        etaMs: total === undefined || completedCount === 0 ? undefined : (total - completedCount) * elapsedMs / completedCount,
+      });
+    };
+    let failure: any;
+    const allSettled = new Promise<void>((resolve, reject) => {
+      const rejectWithFailure = () => {
+        if (!options?.throwJobsAbortedError) {
+          reject(failure);
+          return;
+        }
+        const outcomes = jobResults.filter(outcome => outcome !== undefined);
+        reject(new JobsAbortedError<Data, Result, TError>(
+          failure,
+          outcomes.filter(outcome => outcome.status === 'fulfilled'),
+          outcomes.filter(outcome => outcome.status === 'rejected' && !cancelledJobs.some(cancelled => cancelled.index === outcome.index)),
+          [
+            ...cancelledJobs,
+            ...inFlightJobs.values(),
+            ...lookAheadBuffer.filter(entry => entry.resume === undefined).map(({ index, job }) => ({ index, job })),
+          ].sort((a, b) => a.index - b.index),
+        ));
+      };
+      const fail = (error: any) => {
+        if (failed) {
+          return;
+        }
+        failed = true;
+        failure = error;
+        jobsAbort?.controller.abort(new DOMException('Another job has failed', 'AbortError'));
+        if (!options?.waitForInFlightJobs) {
+          rejectWithFailure();
+        }
+      };
+      // starts the next job allowed to start, returns false if there is none for now
+      const startNextJob = (): boolean => {
+        if (failed || signal?.aborted) {
+          return false;
+        }
+        let jobResultPromise: Promise<Result>;
+        let job: Data;
+        let jobIndex: number;
+        let jobKey: unknown;
+        let jobStartTime: number | undefined;
+        let entry: { job: Data; index: number; key: unknown; resume?: () => void } | undefined;
+        let holdingSlot = false;
+        const acquireSlot = () => {
+          holdingSlot = true;
+          dispatcher.acquireSlot();
+          if (keyOf) {
+            runningPerKey.set(jobKey, (runningPerKey.get(jobKey) ?? 0) + 1);
+          }
+        };
+        const releaseSlot = () => {
+          if (!holdingSlot) {
+            return;
+          }
+          holdingSlot = false;
+          dispatcher.releaseSlot();
+          if (keyOf) {
+            const count = runningPerKey.get(jobKey)! - 1;
+            if (count > 0) {
+              runningPerKey.set(jobKey, count);
+            } else {
+              runningPerKey.delete(jobKey);
+            }
+          }
+        };
+        // called by a job requeued by retry, resolves when the job takes a slot again
+        const waitForSlot = () => new Promise<void>((resolve, reject) => {
+          const requeued = {
+            job,
+            index: jobIndex,
+            key: jobKey,
+            resume: () => {
+              jobSignal!.removeEventListener('abort', onAbort);
+              acquireSlot();
+              resolve();
+            },
+          };
+          const onAbort = () => {
+            lookAheadBuffer.splice(lookAheadBuffer.indexOf(requeued), 1);
+            reject(PromiseUtils.abortReason(jobSignal!));
+          };
+          jobSignal!.addEventListener('abort', onAbort);
+          lookAheadBuffer.push(requeued);
+          launch();
+        });
+        try {
+          entry = takeNextJob();
+          if (entry === undefined) {
+            return false;
+          }
+          if (entry.resume) {
+            entry.resume(); // a job requeued by retry, its backoff has elapsed
+            return true;
+          }
+          job = entry.job;
+          jobIndex = entry.index;
+          jobKey = entry.key;
+          const runAttempt = () => dispatcher.execute(() => operation(job, jobIndex, jobSignal));
+          const runJob = () => {
+            jobStartTime = scheduler.now();
+            startedCount++;
+            options?.onJobStart?.({ index: jobIndex, job });
+            reportProgress();
+            if (!retry) {
+              return runAttempt();
+            }
+            const { backoff, shouldRetry, requeue, ...retryOptions } = retry;
+            return PromiseUtils.withRetry<Result, TError>(async (attempt) => {
+              if (attempt > 1) {
+                if (requeue) {
+                  await waitForSlot();
+                }
+                await rateLimiter?.acquire(1, { signal: jobSignal });
+              }
+              return runAttempt();
+            }, backoff, shouldRetry, {
+              ...retryOptions,
+              signal: jobSignal,
+              scheduler,
+              onRetry: (info) => {
+                if (requeue) {
+                  releaseSlot();
+                  launch();
+                }
+                retryOptions.onRetry?.(info);
+              },
+            });
+          };
+          jobResultPromise = rateLimiter
+            ? rateLimiter.acquire(1, { signal: jobSignal }).then(() => {
+              if (failed) {
+                // do not start the job if another job has failed while waiting for the permit
+                throw new DOMException('Another job has failed', 'AbortError');
+              }
+              return runJob();
+            })
+            : runJob();
+        } catch (error) {
+          if (entry !== undefined) {
+            jobResults[entry.index] = { status: 'rejected', reason: error as TError, index: entry.index, job: entry.job };
+          }
+          fail(error);
+          return false;
+        }
+        acquireSlot();
+        inFlightJobs.set(jobIndex, { index: jobIndex, job });
+        const recordOutcome = (outcome: JobSettledResult<Data, Result, TError>) => {
+          jobResults[jobIndex] = outcome;
+          inFlightJobs.delete(jobIndex);
+          if (failed && outcome.status === 'rejected' && PromiseUtils.isAbortedBy(outcome.reason, jobSignal)) {
+            cancelledJobs.push({ index: jobIndex, job }); // other failures after the abort still count as failed
+          }
+          if (jobStartTime === undefined) {
+            return; // the job has never started
+          }
+          completedCount++;
+          if (outcome.status === 'rejected') {
+            failedCount++;
+          }
+          options?.onJobFinish?.({ ...outcome, durationMs: scheduler.now() - jobStartTime });
+          reportProgress();
+        };
+        jobResultPromise.then(
+          value => recordOutcome({ status: 'fulfilled', value, index: jobIndex, job }),
+          error => {
+            recordOutcome({ status: 'rejected', reason: error, index: jobIndex, job });
+            if (options?.abortOnError) {
+              fail(error);
+            }
+          },
+        ).catch(fail).then(() => {
+          releaseSlot();
+          launch();
+        });
+        return true;
+      };
+      const dispatcher = new JobDispatcher(parallelism, startNextJob, () => launch());
+      // starts as many jobs as the current limit allows, called again whenever a job settles
+      const launch = () => {
+        dispatcher.dispatch();
+        if (dispatcher.running === 0 && inFlightJobs.size === 0 && (failed || signal?.aborted || (exhausted && lookAheadBuffer.length === 0))) {
+          if (failed) {
+            rejectWithFailure(); // a no-op unless waiting for in-flight jobs
+          } else {
+            resolve();
+          }
+        }
+      };
+      launch();
+    });
+    try {
+      await PromiseUtils.raceWithSignal(allSettled, signal);
+    } finally {
+      jobsAbort?.unlink();
+    }
+    return jobResults;
+  }
+
+  /**
+   * Gets the next value from an iterator.
+   * @param iterator The iterator.
+   * @returns The next value, or undefined if the iterator is done.
+   */
+  private static nextOrUndefined<T>(iterator: Iterator<T>): T | undefined {
+    const next = iterator.next();
+    return next.done ? undefined : next.value;
+  }
+
+  private static synchronizationLocks = new Map<any, SynchronizationLockEntry>();
+  private static lastSynchronizationLockKey = 0;
+
+  /**
+   * Provides mutual exclusion similar to `synchronized` in Java.
+   * Ensures no concurrent execution of any operation function associated with the same lock.
+   * The operation function has access to the state (when `synchronized` is called),
+   * settledState (when the operation function is called),
+   * and result (either the fulfilled result or the rejected reason) of the previous operation.
+   * If there is no previous invocation, state, settledState, and result will all be undefined.
+   *
+   * A lock is forgotten as soon as its last operation has settled and no other operation is waiting for it,
+   * unless `options.previousResultTtlMs` is specified for retaining the result of the previous operation for a while.
+   *
+   * By default, operations are coordinated within the current process only, through an {@link InMemoryLockBackend}.
+   * With `options.backend`, such as `FileLockBackend`, operations in different processes can be coordinated as well.
+   * 
+   * @param lock The object (such as a string, a number, or `this` in a class) used to identify the lock.
+   * @param operation The function that performs the computation and returns a Promise.
+   * @param options Options to control the function's behavior, see {@link SynchronizedOptions} for details.
+   * @param options.previousResultTtlMs How long the result of the operation is retained for the next operation after it has settled. It defaults to 0.
+   * @param options.backend The {@link LockBackend} (such as a lock file based one for coordinating with other processes).
+   *                        It defaults to an {@link InMemoryLockBackend} shared by all the calls.
+   * @param options.leaseTtlMs The TTL of the leases acquired from the backend. It defaults to 30000.
+   * @param options.renewIntervalMs How often the lease acquired from the backend is renewed. It defaults to one third of `leaseTtlMs`.
+   * @param options.acquireTimeoutMs How long to wait for the lease from the backend before rejecting with a {@link LockTimeoutError}.
+   * @param options.signal An optional `AbortSignal` for giving up waiting for the lease from the backend.
+   * @param options.onLeaseLost A hook called when the lease acquired from the backend could not be renewed.
+   * @param options.scheduler The {@link Scheduler} for the timers and measuring running time. It defaults to {@link systemScheduler}.
+   * @returns The result of the operation function.
+   */
+  static async synchronized<T>(
+    lock: any,
+    operation: (previousState: PromiseStateType | undefined, previousSettledState: PromiseStateType | undefined, previousResult: any) => Promise<T>,
+    options?: SynchronizedOptions,
+  ): Promise<T> {
+    const scheduler = options?.scheduler ?? systemScheduler;
+    let entry = PromiseUtils.synchronizationLocks.get(lock);
+    if (entry === undefined) {
+      entry = { key: String(++PromiseUtils.lastSynchronizationLockKey), pending: 0 };
+      PromiseUtils.synchronizationLocks.set(lock, entry);
+    } else if (entry.evictionTimer !== undefined) {
+      entry.evictionTimer.scheduler.clearTimeout(entry.evictionTimer.handle);
+      entry.evictionTimer = undefined;
+    }
+    const lockEntry = entry;
+    lockEntry.pending++;
+    const run: typeof operation = (...args) => {
+      lockEntry.holderStartTime = scheduler.now();
+      lockEntry.holderScheduler = scheduler;
+      return PromiseUtils.runWithLease(lock, lockEntry.key, () => operation(...args), options ?? {});
+    };
+
+    const previousResultPromise = lockEntry.resultPromise;
+    // registered before anything is awaited, so that another call in the same tick waits for this one
+    const resultPromise = (async () => {
+      let previousState: PromiseStateType | undefined;
+      if (previousResultPromise !== undefined) {
+        previousState = await PromiseUtils.promiseState(previousResultPromise);
+      }
+      switch (previousState) {
+        case PromiseState.Pending: {  // concurrency
+          return previousResultPromise!.then(result => run(PromiseState.Pending, PromiseState.Fulfilled, result), error => run(PromiseState.Pending, PromiseState.Rejected, error));
+        }
+        case undefined: { // no concurrency and no history
+          // eslint-disable-next-line unicorn/no-useless-undefined
+          return run(undefined, undefined, undefined);
+        }
+        default: {  // no concurrency but with history
+          return run(previousState, previousState, await previousResultPromise!.catch(error => error));
+        }
+      }
+    })();
+    lockEntry.resultPromise = resultPromise;
+    const settle = () => {
+      lockEntry.pending--;
+      lockEntry.holderStartTime = undefined;
+      lockEntry.holderScheduler = undefined;
+      if (lockEntry.pending > 0 || PromiseUtils.synchronizationLocks.get(lock) !== lockEntry) {
+        return;
+      }
+      const ttlMs = options?.previousResultTtlMs ?? 0;
+      if (ttlMs > 0) {
+        const handle = scheduler.setTimeout(() => PromiseUtils.synchronizationLocks.delete(lock), ttlMs);
+        if (scheduler === systemScheduler) {
+          (handle as ReturnType<typeof setTimeout>).unref?.(); // retaining the result should not keep the process running
+        }
+        lockEntry.evictionTimer = { scheduler, handle };
+      } else {
+        PromiseUtils.synchronizationLocks.delete(lock);
+      }
+    };
+    resultPromise.then(settle, settle);
+    return resultPromise;
+  }
+
+  /**
+   * Runs an operation holding a lease from the backend specified in the options of {@link PromiseUtils.synchronized}
+   * (or the default one), renewing the lease periodically until the operation settles.
+   * @param lock The lock, which must be a string or a number unless the default backend is used.
+   * @param defaultKey The key identifying the lock in the default backend.
+   * @param operation The operation.
+   * @param options The options of {@link PromiseUtils.synchronized}.
+   * @returns The result of the operation.
+   */
+  private static async runWithLease<T>(lock: any, defaultKey: string, operation: () => Promise<T>, options: SynchronizedOptions): Promise<T> {
+    if (options.backend !== undefined && typeof lock !== 'string' && typeof lock !== 'number') {
+      throw new TypeError(`The lock must be a string or a number when a lock backend is used, but it is: ${typeof lock}`);
+    }
+    const backend = options.backend ?? defaultLockBackend;
+    const key = options.backend === undefined ? defaultKey : String(lock);
+    const scheduler = options.scheduler ?? systemScheduler;
+    const ttlMs = options.leaseTtlMs ?? 30000;
+    const { controller, unlink } = PromiseUtils.createLinkedAbortController(options.signal);
+    const timeoutMs = options.acquireTimeoutMs;
+    const timeoutTimer = timeoutMs === undefined ? undefined : scheduler.setTimeout(() => controller.abort(new LockTimeoutError('backend', timeoutMs)), timeoutMs);
+    let token: string;
+    try {
+      token = await backend.acquire(key, ttlMs, { signal: controller.signal });
+    } finally {
+      unlink();
+      if (timeoutTimer !== undefined) {
+        scheduler.clearTimeout(timeoutTimer);
+      }
+    }
+    let renewalTimer: unknown;
+    let done = false;
+    const scheduleRenewal = () => {
+      renewalTimer = scheduler.setTimeout(() => {
+        renewalTimer = undefined;
+        backend.renew(key, token, ttlMs).then(
+          renewed => {
+            if (done) {
+              return;
+            }
+            if (renewed) {
+              scheduleRenewal();
+            } else {
+              options.onLeaseLost?.({ lock: key });
+            }
+          },
+          error => {
+            if (!done) {
+              options.onLeaseLost?.({ lock: key, error });
+            }
+          },
+        );
+      }, options.renewIntervalMs ?? ttlMs / 3);
+      if (scheduler === systemScheduler) {
+        (renewalTimer as ReturnType<typeof setTimeout>).unref?.(); // renewing the lease should not keep the process running
+      }
+    };
+    scheduleRenewal();
+    try {
+      return await operation();
+    } finally {
+      done = true;
+      if (renewalTimer !== undefined) {
+        scheduler.clearTimeout(renewalTimer);
+      }
+      await backend.release(key, token).catch(() => { /* a lease failed to be released expires by itself */ });
+    }
+  }
+
+  /**
+   * Lists the locks of {@link PromiseUtils.synchronized} that are held or waited for,
+   * for diagnosing contention and stuck operations.
+   * Locks retained only because of `previousResultTtlMs` are not included.
+   *
+   * @example
+   * for (const { lock, queueDepth, holderRunningMs } of PromiseUtils.listSynchronizationLocks()) {
+   *   if (holderRunningMs !== undefined && holderRunningMs > 60000) {
+   *     console.warn(`Lock ${lock} has been held for ${holderRunningMs}ms with ${queueDepth} operation(s) waiting`);
+   *   }
+   * }
+   *
+   * @returns The information about the locks in use.
+   */
+  static listSynchronizationLocks(): Array<SynchronizationLockInfo> {
+    const locks = new Array<SynchronizationLockInfo>();
+    for (const [lock, entry] of PromiseUtils.synchronizationLocks) {
+      if (entry.pending === 0) {
+        continue;
+      }
+      const holding = entry.holderStartTime !== undefined;
+      locks.push({
+        lock,
+        queueDepth: entry.pending - (holding ? 1 : 0),
+        holderRunningMs: holding ? entry.holderScheduler!.now() - entry.holderStartTime! : undefined,
+      });
+    }
+    return locks;
+  }
+
+  /**
+   * This is just another spelling of {@link PromiseUtils.synchronized}.
+   * @param lock The object (such as a string, a number, or `this` in a class) used to identify the lock.
+   * @param operation The function that performs the computation and returns a Promise.
+   * @param options Options to control the function's behavior, see {@link SynchronizedOptions} for details.
+   * @returns The result of the operation function.
+   */
+  static async synchronised<T>(
+    lock: any,
+    operation: (previousState: PromiseStateType | undefined, previousSettledState: PromiseStateType | undefined, previousResult: any) => Promise<T>,
+    options?: SynchronizedOptions,
+  ): Promise<T> {
+    return PromiseUtils.synchronized(lock, operation, options);
+  }
+
+  private static singleFlights = new Map<any, SingleFlightEntry>();
+
+  /**
+   * Coalesces concurrent calls with the same key into one execution of the operation.
+   * The first caller starts the operation, and the callers coming while it is in flight share the same outcome,
+   * which is useful for avoiding a stampede of calls to the same loader when a hot cache entry expires.
+   * Unlike {@link PromiseUtils.synchronized}, which runs the operation once for every caller, the operation runs only once.
+   *
+   * @example
+   * const user = await PromiseUtils.singleFlight(`user:${id}`, (signal) => loadUser(id, signal), { signal: request.signal, shareResultForMs: 100 });
+   *
+   * @param key The object (such as a string or a number) identifying the operation.
+   * @param operation The function that performs the operation and returns a Promise.
+   *                  It receives a signal which is aborted when all the callers sharing it have aborted.
+   * @param options Options to control the function's behavior, see {@link SingleFlightOptions} for details.
+   * @param options.shareResultForMs How long a fulfilled result is still shared after the operation has settled. It defaults to 0.
+   *                                 The longest one among the callers sharing the operation applies.
+   * @param options.signal An optional `AbortSignal` for this caller to stop waiting, the shared operation is aborted only when all of its callers have aborted.
+   * @param options.scheduler The {@link Scheduler} for the result sharing window. It defaults to {@link systemScheduler}.
+   *                          Only the one of the caller starting the operation applies.
+   * @returns The result of the shared operation.
+   */
+  static async singleFlight<T>(key: any, operation: (signal: AbortSignal) => Promise<T>, options?: SingleFlightOptions): Promise<T> {
+    const signal = options?.signal;
+    PromiseUtils.throwIfAborted(signal);
+    let entry = PromiseUtils.singleFlights.get(key);
+    if (entry === undefined) {
+      const controller = new AbortController();
+      const newEntry: SingleFlightEntry = {
+        promise: new Promise<T>(resolve => resolve(operation(controller.signal))),
+        controller,
+        shareResultForMs: 0,
+        callers: 0,
+        settled: false,
+      };
+      const forget = () => {
+        if (PromiseUtils.singleFlights.get(key) === newEntry) {
+          PromiseUtils.singleFlights.delete(key);
+        }
+      };
+      newEntry.promise.then(
+        () => {
+          newEntry.settled = true;
+          const shareResultForMs = newEntry.shareResultForMs;
+          if (shareResultForMs > 0) {
+            const scheduler = options?.scheduler ?? systemScheduler;
+            const handle = scheduler.setTimeout(forget, shareResultForMs);
+            if (scheduler === systemScheduler) {
+              (handle as ReturnType<typeof setTimeout>).unref?.(); // sharing the result should not keep the process running
+            }
+          } else {
+            forget();
+          }
+        },
+        () => {
+          newEntry.settled = true;
+          forget();
+        },
+      );
+      PromiseUtils.singleFlights.set(key, newEntry);
+      entry = newEntry;
+    }
+    const sharedEntry = entry;
+    sharedEntry.callers++;
+    if (!sharedEntry.settled) {
+      sharedEntry.shareResultForMs = Math.max(sharedEntry.shareResultForMs, options?.shareResultForMs ?? 0);
+    }
+    if (signal === undefined) {
+      return sharedEntry.promise;
+    }
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(PromiseUtils.abortReason(signal));
+        if (--sharedEntry.callers === 0 && !sharedEntry.settled) {
+          // nobody is interested in the outcome any more, and the next caller should start afresh
+          if (PromiseUtils.singleFlights.get(key) === sharedEntry) {
+            PromiseUtils.singleFlights.delete(key);
+          }
+          sharedEntry.controller.abort(PromiseUtils.abortReason(signal));
+        }
+      };
+      signal.addEventListener('abort', onAbort);
+      sharedEntry.promise.then(
+        result => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      );
+    });
+  }
+
+  /**
+   * Runs an operation periodically with configurable intervals and stopping conditions.
+   *
+   * - `interval` may be a single number (ms), an array of numbers, an iterable of numbers
+   *   (such as a {@link Backoff}), or a function that receives the iteration number (starting at 1)
+   *   and returns the next interval in milliseconds or `undefined` to stop.
+   * - If the interval array or iterable runs out of elements or the function returns `undefined`
+   *   (or a negative value), no further invocations will be scheduled.
+   *
+   * Options:
+   * - `maxExecutions` stop after N runs (inclusive).
+   * - `maxDurationMs` stop after elapsed ms since the first scheduled start.
+   * - `schedule` controls how the interval is measured:
+   *   - `'delayAfterEnd'`: wait the interval after the previous operation completes
+   *     before scheduling the next one (equivalent to a fixed delay between ends).
+   *   - `'delayBetweenStarts'`: keep start times on a regular schedule (interval measured
+   *     between the starts of successive operations).
+   *   The default schedule is `'delayBetweenStarts'`.
+   *
+   * Returns an object with `stop()` to cancel further executions and `done` which
+   * resolves when the periodic runner stops. If the provided `operation` throws or
+   * rejects, the `done` promise will reject with that error so callers can handle it.
+   *
+   * Note: The first invocation of `operation` is scheduled after the first interval
+   * elapses (i.e. this function does NOT call `operation` immediately). If you need
+   * an immediate run, invoke `operation(1)` yourself before calling `runPeriodically`.
+   *
+   * @template T The operation return type (ignored by the runner; used for typing).
+   * @param operation Function to run each iteration. Receives the iteration index (1-based).
+   * @param interval Number | number[] | Iterable<number> | ((iteration: number) => number|undefined) defining waits.
+   * @param options Optional configuration.
+   * @param options.maxExecutions Stop after N executions.
+   * @param options.maxDurationMs Stop after N milliseconds.
+   * @param options.schedule How to measure intervals: `'delayAfterEnd'` or `'delayBetweenStarts'`.
+   * @param options.signal An optional `AbortSignal`. When it is aborted, the runner stops and `done` rejects
+   *        with the abort reason (normally an `AbortError`). The signal is also passed to the operation as its second argument.
+   * @param options.scheduler The {@link Scheduler} for the timers and elapsed time. It defaults to {@link systemScheduler}.
+   * @param options.rateLimiter An optional {@link RateLimiter} from which a permit is acquired before each execution,
+   *        which could delay the execution beyond the interval.
+   * @returns An object containing `stop()` to cancel further executions and `done` Promise
+   *          which resolves when the periodic runner stops (or rejects if the operation errors or the signal is aborted).
+   */
+  static runPeriodically<T>(
+    operation: (iteration: number, signal?: AbortSignal) => Promise<T> | T,
+    interval: number | Array<number> | Iterable<number> | ((iteration: number) => number | undefined),
+    options?: {
+      maxExecutions?: number;
+      maxDurationMs?: number;
+      schedule?: 'delayAfterEnd' | 'delayBetweenStarts';
+      signal?: AbortSignal;
+      scheduler?: Scheduler;
+      rateLimiter?: RateLimiter;
+    },
+  ): { stop: () => void; done: Promise<void> } {
+    const signal = options?.signal;
+    const scheduler = options?.scheduler ?? systemScheduler;
     let stopped = false;
-    let timer: ReturnType<typeof setTimeout> | undefined;
+    let timer: unknown;
     let waitResolve: (() => void) | undefined;
 
-    const stop = () => {
-      stopped = true;
-      if (timer !== undefined) {
-        clearTimeout(timer);
-        timer = undefined;
-      }
-      if (waitResolve) {
-        // resolve the pending wait so the runner can notice `stopped` and exit
-        const r = waitResolve;
-        waitResolve = undefined;
-        r();
+    const stop = () => {
+      stopped = true;
+      if (timer !== undefined) {
+        scheduler.clearTimeout(timer);
+        timer = undefined;
+      }
+      if (waitResolve) {
+        // resolve the pending wait so the runner can notice `stopped` and exit
+        const r = waitResolve;
+        waitResolve = undefined;
+        r();
+      }
+    };
+
+    const intervalIterator = typeof interval === 'number' || typeof interval === 'function' ? undefined : interval[Symbol.iterator]();
+    const getInterval = (iteration: number): number | undefined => {
+      if (typeof interval === 'function') {
+        return interval(iteration);
+      }
+      if (typeof interval === 'number') {
+        return interval;
+      }
+      return PromiseUtils.nextOrUndefined(intervalIterator!);
+    };
+
+    const done = (async () => {
+      PromiseUtils.throwIfAborted(signal);
+      signal?.addEventListener('abort', stop);
+      const startTime = scheduler.now();
+      let iteration = 0;
+      // lastStart tracks the start time of the previous iteration (used by delayBetweenStarts)
+      let lastStart = scheduler.now();
+
+      while (!stopped) {
+        const nextIteration = iteration + 1;
+        const nextInterval = getInterval(nextIteration);
+        if (nextInterval == null || nextInterval < 0) break;
+
+        const schedule = options?.schedule ?? 'delayBetweenStarts';
+        const waitMs = schedule === 'delayBetweenStarts'
+          ? Math.max(0, lastStart + nextInterval - scheduler.now())
+          : nextInterval;
+
+        // wait (cancelable via stop() which clears the timeout and resolves the wait)
+        await new Promise<void>(resolve => {
+          waitResolve = resolve;
+          timer = scheduler.setTimeout(() => { timer = undefined; waitResolve = undefined; resolve(); }, waitMs);
+        });
+        waitResolve = undefined;
+        if (stopped) break;
+        await options?.rateLimiter?.acquire(1, { signal });
+        if (stopped) break;
+
+        iteration = nextIteration;
+        lastStart = scheduler.now();
+
+        // let errors propagate to the done promise so caller can decide handling
+        await PromiseUtils.raceWithSignal(Promise.resolve(operation(iteration, signal)), signal);
+
+        if (options?.maxExecutions && iteration >= options.maxExecutions) break;
+        if (options?.maxDurationMs && (scheduler.now() - startTime) >= options.maxDurationMs) break;
+      }
+      PromiseUtils.throwIfAborted(signal);
+    })().finally(() => signal?.removeEventListener('abort', stop));
+
+    return { stop, done };
+  }
+}
+
+/* c8 ignore next */
+/**
+ * Executes an operation repeatedly and collects all the results.
+ * This function is very useful for many scenarios, such like client-side pagination.
+ *
+ * @param operation A function that takes a parameter as input and returns a result. Typically, the parameter has optional fields to control paging.
+ * @param nextParameter A function for calculating the next parameter from the operation result. Normally, this parameter controls paging. This function should return null when no further invocation of the operation function is desired. If further invocation is desired, the return value of this function can be a Promise or a non-Promise value.
+ * @param collect A function for merging the operation result into the collection.
+ * @param initialCollection The initial collection, which will be the first argument passed to the first invocation of the collect function.
+ * @param initialParameter The parameter for the first operation.
+ * @param options Options to control the function's behavior.
+ * @param options.signal An optional AbortSignal for aborting the repetition. It is also passed to the operation function.
+ * @returns A promise that resolves to a collection of all the results returned by the operation function.
+ */
+export const repeat = PromiseUtils.repeat;
+
+/* c8 ignore next */
+/**
+ * Repeatedly performs an operation until a specified criteria is met.
+ *
+ * @param operation A function that outputs a Promise result. Typically, the operation does not use its arguments.
+ * @param backoff An array or iterable (such as a Backoff) of retry backoff periods (in milliseconds), or a function for calculating them.
+ * @param shouldRetry A predicate function for deciding whether another call to the operation should occur.
+ * @param options Options to control the function's behavior, see WithRetryOptions for details.
+ * @returns A promise of the operation result, potentially with retries applied.
+ */
+export const withRetry = PromiseUtils.withRetry;
+
+/* c8 ignore next */
+/**
+ * Parses the value of a `Retry-After` HTTP header into a number of milliseconds.
+ * Both formats defined by the HTTP specification are supported: delay in seconds, and HTTP-date.
+ *
+ * @param value The header value, or a number of seconds.
+ * @param now The current time in milliseconds since epoch, used for the HTTP-date format. It defaults to `Date.now()`.
+ * @returns The number of milliseconds to wait (never negative), or `undefined` if the value is absent or cannot be parsed.
+ */
+export const parseRetryAfter = PromiseUtils.parseRetryAfter;
+
+/* c8 ignore next */
+/**
+ * Executes multiple jobs/operations with a specified level of concurrency.
+ *
+ * @param concurrency The number of jobs/operations to run concurrently, or an AdaptiveConcurrencyLimit.
+ * @param jobs The job data to be processed. This function can handle an infinite or unknown number of elements safely.
+ * @param operation The function that processes job data asynchronously.
+ * @param options Options to control the function's behavior.
+ * @param options.signal An optional AbortSignal for stopping pulling further jobs.
+ *        A signal linked to it, which is also aborted when any job fails, is passed to the operation function.
+ * @param options.waitForInFlightJobs If true, the returned Promise rejects only after all the jobs still running have settled.
+ * @param options.throwJobsAbortedError If true, reject with a JobsAbortedError telling which jobs were completed, failed and cancelled.
+ * @param options.rateLimiter An optional RateLimiter from which a permit is acquired before each job starts.
+ * @param options.retry If specified, failed jobs are retried like through withRetry, optionally requeued to free their slots during backoff.
+ * @param options.keyOf An optional function returning the key of a job, for limiting the number of jobs of the same key running at the same time.
+ * @param options.perKeyLimit The maximum number of jobs of the same key running at the same time. It defaults to 1.
+ * @param options.maxLookAhead The maximum number of jobs waiting for their saturated keys that could be overtaken by the jobs after them. It defaults to 1000, and 0 keeps the jobs starting in order.
+ * @param options.onProgress A hook called whenever a job starts or finishes, with the counts, throughput and ETA.
+ * @param options.onJobStart A hook called when a job starts.
+ * @param options.onJobFinish A hook called when a job finishes, with its outcome and duration.
+ * @returns A promise that resolves to an array containing the results from the operation function.
+ *          The results in the returned array are in the same order as the corresponding elements in the jobs array.
+ */
+export const withConcurrency = PromiseUtils.withConcurrency;
+
+/* c8 ignore next */
+/**
+ * Executes multiple jobs/operations in parallel. By default, all operations are executed regardless of any failures.
+ * In most cases, using withConcurrency might be more convenient.
+ *
+ * By default, this function does not throw or reject an error when any job/operation fails.
+ * Errors from operations are returned alongside results in the returned array.
+ * This function only resolves when all jobs/operations are settled (either resolved or rejected).
+ *
+ * If options.abortOnError is set to true, this function throws (or rejects with) an error immediately when any job/operation fails.
+ * In this mode, no further operations will be started after a failure occurs,
+ * and the signal passed to the operations still running is aborted.
+ *
+ * @param parallelism The number of jobs/operations to run concurrently, or an AdaptiveConcurrencyLimit.
+ * @param jobs The job data to be processed. This function can safely handle an infinite or unknown number of elements.
+ * @param operation The function that processes job data asynchronously.
+ * @param options Options to control the function's behavior.
+ * @param options.abortOnError If true, the function aborts and throws an error on the first failed operation.
+ * @param options.waitForInFlightJobs If true, when aborting on error, the returned Promise rejects only after all the jobs still running have settled.
+ * @param options.throwJobsAbortedError If true, when aborting on error, reject with a JobsAbortedError telling which jobs were completed, failed and cancelled.
+ * @param options.signal An optional AbortSignal for stopping pulling further jobs. It is also passed to the operation function.
+ * @param options.rateLimiter An optional RateLimiter from which a permit is acquired before each job starts.
+ * @param options.retry If specified, failed jobs are retried like through withRetry, optionally requeued to free their slots during backoff.
+ * @param options.keyOf An optional function returning the key of a job, for limiting the number of jobs of the same key running at the same time.
+ * @param options.perKeyLimit The maximum number of jobs of the same key running at the same time. It defaults to 1.
+ * @param options.maxLookAhead The maximum number of jobs waiting for their saturated keys that could be overtaken by the jobs after them. It defaults to 1000, and 0 keeps the jobs starting in order.
+ * @param options.onProgress A hook called whenever a job starts or finishes, with the counts, throughput and ETA.
+ * @param options.onJobStart A hook called when a job starts.
+ * @param options.onJobFinish A hook called when a job finishes, with its outcome and duration.
+ * @returns A promise that resolves to an array containing the results of the operations.
+ *  Each element is either a fulfilled result or a rejected error/reason.
+ *  The results or errors in the returned array are in the same order as the corresponding elements in the jobs array.
+ */
+export const inParallel = PromiseUtils.inParallel;
+
+/* c8 ignore next */
+/**
+ * Executes multiple jobs/operations in parallel like inParallel, but streams the results from an async generator.
+ * The jobs could come from an Iterable or an AsyncIterable, and the results are yielded in the input order (default)
+ * or in the completion order. No more than `parallelism` jobs are pulled ahead of the consumer,
+ * and no further jobs are pulled after the consumer stops iterating.
+ *
+ * @param parallelism The number of jobs/operations to run concurrently.
+ * @param jobs The job data to be processed, either an Iterable or an AsyncIterable. It could be infinite.
+ * @param operation The function that processes job data asynchronously.
+ * @param options Options to control the function's behavior.
+ * @param options.order The order of the results: `'input'` (default) or `'completion'`.
+ * @param options.abortOnError If true, the generator throws the first error from the operations.
+ * @param options.signal An optional AbortSignal for aborting the processing.
+ * @returns An async generator of the results of the operations, each of which is either a fulfilled result or a rejected error/reason.
+ */
+export const inParallelStream = PromiseUtils.inParallelStream;
+
+/* c8 ignore next */
+/**
+ * Executes multiple jobs/operations in parallel like inParallel, and returns the outcome of every job
+ * in the same shape as `Promise.allSettled(...)`, together with the index and the data of the job.
+ *
+ * @param parallelism The number of jobs/operations to run concurrently, or an AdaptiveConcurrencyLimit.
+ * @param jobs The job data to be processed. This function can safely handle an infinite or unknown number of elements.
+ * @param operation The function that processes job data asynchronously.
+ * @param options Options to control the function's behavior.
+ * @param options.signal An optional AbortSignal for aborting the processing.
+ * @param options.rateLimiter An optional RateLimiter from which a permit is acquired before each job starts.
+ * @param options.retry If specified, failed jobs are retried like through withRetry, optionally requeued to free their slots during backoff.
+ * @param options.keyOf An optional function returning the key of a job, for limiting the number of jobs of the same key running at the same time.
+ * @param options.perKeyLimit The maximum number of jobs of the same key running at the same time. It defaults to 1.
+ * @param options.maxLookAhead The maximum number of jobs waiting for their saturated keys that could be overtaken by the jobs after them. It defaults to 1000, and 0 keeps the jobs starting in order.
+ * @param options.onProgress A hook called whenever a job starts or finishes, with the counts, throughput and ETA.
+ * @param options.onJobStart A hook called when a job starts.
+ * @param options.onJobFinish A hook called when a job finishes, with its outcome and duration.
+ * @returns A promise that resolves to the outcomes of all the jobs (in the same order as the jobs) and the counts of fulfilled and rejected ones.
+ */
+export const inParallelSettled = PromiseUtils.inParallelSettled;
+
+/* c8 ignore next */
+/**
+ * Creates a Promise that resolves after a specified number of milliseconds.
+ *
+ * The result argument may be:
+ * - a value to resolve with,
+ * - a PromiseLike whose resolution will be adopted by the returned Promise, or
+ * - a function which is invoked when the timer fires and may return a value or a PromiseLike.
+ *
+ * If result is a function, it is called when the timer elapses; if it returns a Promise,
+ * the returned Promise will adopt that Promise's outcome.
+ *
+ * @param ms The number of milliseconds after which the created Promise will resolve.
+ * @param result The result to be resolved by the Promise, or a function that supplies the result.
+ * @param options Options to control the function's behavior.
+ * @param options.signal An optional AbortSignal for clearing the timer and rejecting the Promise.
+ * @returns A Promise that resolves with the specified result after the specified delay.
+ */
+export const delayedResolve = PromiseUtils.delayedResolve;
+
+/* c8 ignore next */
+/**
+ * Creates a Promise that rejects after a specified number of milliseconds.
+ *
+ * The reason argument may be:
+ * - a value to reject with,
+ * - a PromiseLike whose rejection will be adopted by the returned Promise, or
+ * - a function which is invoked when the timer fires and may return a value or a PromiseLike.
+ *
+ * If reason is a function, it is called when the timer elapses; if it returns a Promise,
+ * the returned Promise will reject with that Promise's rejection reason (or reject with the
+ * returned value if it resolves).
+ *
+ * @param ms The number of milliseconds after which the created Promise will reject.
+ * @param reason The reason for the rejection, or a function that supplies the reason.
+ * @param options Options to control the function's behavior.
+ * @param options.signal An optional AbortSignal for clearing the timer and rejecting the Promise with the abort reason.
+ * @returns A Promise that rejects with the specified reason after the specified delay.
+ */
+export const delayedReject = PromiseUtils.delayedReject;
+
+/* c8 ignore next */
+/**
+ * Creates a cancellable timer that will resolve after a specified number of milliseconds.
+ *
+ * The returned object contains:
+ * - stop() to cancel the scheduled resolution (if called before the timer fires). Calling
+ *   stop() prevents the promise from being settled by this timer.
+ * - promise which will resolve with the supplied result (or the value returned by the
+ *   result function) after ms milliseconds unless stop() is called first.
+ *
+ * If the result is a PromiseLike, its resolution value will be used as the resolved value.
+ *
+ * @param ms The number of milliseconds after which the scheduled resolution will occur.
+ * @param result The result to be resolved by the Promise, or a function that supplies the result.
+ * @param options Options to control the function's behavior.
+ * @param options.signal An optional AbortSignal for clearing the timer and rejecting the promise.
+ * @returns An object with stop() and promise.
+ */
+export const cancellableDelayedResolve = PromiseUtils.cancellableDelayedResolve;
+
+/* c8 ignore next */
+/**
+ * Creates a cancellable timer that will reject after a specified number of milliseconds.
+ *
+ * The returned object contains:
+ * - stop() to cancel the scheduled rejection (if called before the timer fires). Calling
+ *   stop() prevents the promise from being settled by this timer.
+ * - promise which will reject with the supplied reason (or the value returned by the
+ *   reason function) after ms milliseconds unless stop() is called first.
+ *
+ * If the reason is a PromiseLike that rejects, its rejection value will be used as the rejection reason.
+ *
+ * @param ms The number of milliseconds after which the scheduled rejection will occur.
+ * @param reason The reason for the rejection, or a function that supplies the reason.
+ * @param options Options to control the function's behavior.
+ * @param options.signal An optional AbortSignal for clearing the timer and rejecting the promise with the abort reason.
+ * @returns An object with stop() and promise.
+ */
+export const cancellableDelayedReject = PromiseUtils.cancellableDelayedReject;
+
+/* c8 ignore next */
+/**
+ * Applies a timeout to a Promise or a function that returns a Promise.
+ * If the timeout occurs, the returned Promise resolves to the specified result.
+ * If the timeout does not occur, the returned Promise resolves or rejects based on the outcome of the original Promise.
+ * If the result parameter is a function and the timeout does not occur, the function will not be called.
+ * Note: The rejection of the operation parameter is not handled by this function. 
+ * You may want to handle it outside this function to avoid warnings like "(node:4330) PromiseRejectionHandledWarning: Promise rejection was handled asynchronously."
+ *
+ * @param operation The original Promise or a function that returns a Promise to which the timeout will be applied.
+ * @param ms The number of milliseconds for the timeout.
+ * @param result The result to resolve with if the timeout occurs, or a function that supplies the result.
+ * @param options Options to control the function's behavior.
+ * @param options.signal An optional AbortSignal for clearing the timer and rejecting the returned Promise.
+ * @returns A new Promise that resolves to the specified result if the timeout occurs.
+ */
+export const timeoutResolve = PromiseUtils.timeoutResolve;
+
+/* c8 ignore next */
+/**
+ * Applies a timeout to a Promise or a function that returns a Promise.
+ * If the timeout occurs, the returned Promise rejects with the specified reason.
+ * If the timeout does not occur, the returned Promise resolves or rejects based on the outcome of the original Promise.
+ * If the rejectReason parameter is a function and the timeout does not occur, the function will not be called.
+ * Note: The rejection of the operation parameter is not handled by this function. You may want to handle it outside this function to avoid warnings like "(node:4330) PromiseRejectionHandledWarning: Promise rejection was handled asynchronously."
+ *
+ * @param operation The original Promise or a function that returns a Promise to which the timeout will be applied.
+ * @param ms The number of milliseconds for the timeout.
+ * @param rejectReason The reason to reject with if the timeout occurs, or a function that supplies the reason.
+ * @param options Options to control the function's behavior.
+ * @param options.signal An optional AbortSignal for clearing the timer and rejecting the returned Promise with the abort reason.
+ * @returns A new Promise that rejects with the specified reason if the timeout occurs.
+ */
+export const timeoutReject = PromiseUtils.timeoutReject;
+
+/* c8 ignore next */
+/**
+ * Executes hedged (speculative) attempts of an operation for reducing tail latency.
+ * The first attempt starts immediately, and further attempts are started after the specified delays if no attempt has succeeded yet.
+ * The first attempt that succeeds wins, and the signals passed to all the other attempts are aborted.
+ *
+ * @param operation The function that performs the operation. It receives the attempt number (starting from 1) and an AbortSignal.
+ * @param options Options to control the function's behavior.
+ * @param options.delays The delay (in milliseconds) before starting each extra attempt: a number, an array, or an iterable.
+ * @param options.maxHedges The maximum number of extra attempts.
+ * @param options.signal An optional AbortSignal for aborting all the attempts.
+ * @returns A Promise that resolves to the result of the winning attempt and the attempt number of it.
+ */
+export const hedge = PromiseUtils.hedge;
+
+/* c8 ignore next */
+/**
+ * Provides mutual exclusion similar to synchronized in Java.
+ * Ensures no concurrent execution of any operation function associated with the same lock.
+ * The operation function has access to the state (when synchronized is called),
+ * settledState (when the operation function is called),
+ * and result (either the fulfilled result or the rejected reason) of the previous operation.
+ * If there is no previous invocation, state, settledState, and result will all be undefined.
+ * A lock is forgotten as soon as its last operation has settled, unless options.previousResultTtlMs is specified.
+ *
+ * @param lock The object (such as a string, a number, or this in a class) used to identify the lock.
+ * @param operation The function that performs the computation and returns a Promise.
+ * @param options Options to control the function's behavior.
+ * @param options.previousResultTtlMs How long the result of the operation is retained for the next operation after it has settled. It defaults to 0.
+ * @param options.backend The lock backend (such as a lock file based one for coordinating with other processes). It defaults to an in-memory one.
+ * @param options.leaseTtlMs The TTL of the leases acquired from the backend. It defaults to 30000.
+ * @param options.renewIntervalMs How often the lease acquired from the backend is renewed. It defaults to one third of leaseTtlMs.
+ * @param options.acquireTimeoutMs How long to wait for the lease from the backend before rejecting with a LockTimeoutError.
+ * @param options.signal An optional AbortSignal for giving up waiting for the lease from the backend.
+ * @param options.onLeaseLost A hook called when the lease acquired from the backend could not be renewed.
+ * @param options.scheduler The scheduler for the timers and measuring running time.
+ * @returns The result of the operation function.
+ */
+export const synchronized = PromiseUtils.synchronized;
+
+/* c8 ignore next */
+/**
+ * This is just another spelling of synchronized.
+ * @param lock The object (such as a string, a number, or this in a class) used to identify the lock.
+ * @param operation The function that performs the computation and returns a Promise.
+ * @param options Options to control the function's behavior.
+ * @returns The result of the operation function.
+ */
+export const synchronised = PromiseUtils.synchronised;
+
+/* c8 ignore next */
+/**
+ * Lists the locks of synchronized that are held or waited for, with the number of operations waiting
+ * and how long the operation holding the lock has been running.
+ * @returns The information about the locks in use.
+ */
+export const listSynchronizationLocks = PromiseUtils.listSynchronizationLocks;
+
+/* c8 ignore next */
+/**
+ * Coalesces concurrent calls with the same key into one execution of the operation,
+ * so that all the callers coming while it is in flight share the same outcome.
+ *
+ * @param key The object (such as a string or a number) identifying the operation.
+ * @param operation The function that performs the operation and returns a Promise.
+ *                  It receives a signal which is aborted when all the callers sharing it have aborted.
+ * @param options Options to control the function's behavior.
+ * @param options.shareResultForMs How long a fulfilled result is still shared after the operation has settled. It defaults to 0.
+ * @param options.signal An optional AbortSignal for this caller to stop waiting, the shared operation is aborted only when all of its callers have aborted.
+ * @param options.scheduler The scheduler for the result sharing window.
+ * @returns The result of the shared operation.
+ */
+export const singleFlight = PromiseUtils.singleFlight;
+
+/* c8 ignore next */
+/**
+ * Retrieves the state of the specified Promise.
+ * Note: The returned value is a Promise that resolves immediately.
+ *
+ * @param p The Promise whose state is to be determined.
+ * @returns A Promise that resolves immediately with the state of the input Promise.
+ */
+export const promiseState = PromiseUtils.promiseState;
+
+/* c8 ignore next */
+/**
+ * Runs an operation periodically with configurable intervals and stopping conditions.
+ *
+ * - `interval` may be a single number (ms), an array of numbers, an iterable of numbers
+ *   (such as a Backoff), or a function that receives the iteration number (starting at 1)
+ *   and returns the next interval in milliseconds or `undefined` to stop.
+ * - If the interval array or iterable runs out of elements or the function returns `undefined`
+ *   (or a negative value), no further invocations will be scheduled.
+ *
+ * Options:
+ * - `maxExecutions` stop after N runs (inclusive).
+ * - `maxDurationMs` stop after elapsed ms since the first scheduled start.
+ * - `schedule` controls how the interval is measured:
+ *   - `'delayAfterEnd'`: wait the interval after the previous operation completes
+ *     before scheduling the next one (equivalent to a fixed delay between ends).
+ *   - `'delayBetweenStarts'`: keep start times on a regular schedule (interval measured
+ *     between the starts of successive operations).
+ *   The default schedule is `'delayBetweenStarts'`.
+ *
+ * Returns an object with `stop()` to cancel further executions and `done` which
+ * resolves when the periodic runner stops. If the provided `operation` throws or
+ * rejects, the `done` promise will reject with that error so callers can handle it.
+ *
+ * Note: The first invocation of `operation` is scheduled after the first interval
+ * elapses (i.e. this function does NOT call `operation` immediately). If you need
+ * an immediate run, invoke `operation(1)` yourself before calling `runPeriodically`.
+ *
+ * @template T The operation return type (ignored by the runner; used for typing).
+ * @param operation Function to run each iteration. Receives the iteration index (1-based).
+ * @param interval Number | number[] | Iterable<number> | ((iteration: number) => number|undefined) defining waits.
+ * @param options Optional configuration.
+ * @param options.maxExecutions Stop after N executions.
+ * @param options.maxDurationMs Stop after N milliseconds.
+ * @param options.schedule How to measure intervals: `'delayAfterEnd'` or `'delayBetweenStarts'`.
+ * @param options.signal An optional `AbortSignal` for stopping the runner, `done` rejects with the abort reason.
+ * @param options.scheduler The Scheduler for the timers and elapsed time.
+ * @param options.rateLimiter An optional RateLimiter from which a permit is acquired before each execution.
+ * @returns An object containing `stop()` to cancel further executions and `done` Promise
+ *          which resolves when the periodic runner stops (or rejects if the operation errors or the signal is aborted).
+ */
+export const runPeriodically = PromiseUtils.runPeriodically;
+
+/**
+ * The state of a {@link CircuitBreaker} can only be one of: Closed, Open, and HalfOpen.
+ * - `Closed`: operations are executed normally, and failures are counted.
+ * - `Open`: operations are rejected immediately with a {@link CircuitOpenError} until the cool-down period elapses.
+ * - `HalfOpen`: a limited number of probe operations are allowed, their outcomes decide whether the circuit closes or opens again.
+ */
+export const CircuitBreakerState = {
+  Closed: 'Closed',
+  Open: 'Open',
+  HalfOpen: 'HalfOpen',
+} as const;
+
+export type CircuitBreakerStateType = keyof typeof CircuitBreakerState;
+
+/**
+ * The error thrown by {@link CircuitBreaker.execute} when the circuit is open,
+ * or when it is half-open and the maximum number of concurrent probes has been reached.
+ */
+export class CircuitOpenError extends Error {
+  /**
+   * Constructor
+   * @param state The state of the circuit breaker when the operation was rejected.
+   * @param retryAfterMs The number of milliseconds until the circuit breaker would allow probes again, 0 if it is half-open.
+   */
+  constructor(readonly state: CircuitBreakerStateType, readonly retryAfterMs: number) {
+    super(state === CircuitBreakerState.Open ? `Circuit is open, retry after ${retryAfterMs}ms` : 'Circuit is half-open and busy with probes');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Options for {@link CircuitBreaker}.
+ */
+export type CircuitBreakerOptions = {
+  /**
+   * The number of consecutive failures that opens the circuit. It defaults to 5.
+   */
+  failureThreshold?: number;
+  /**
+   * The failure rate (between 0 and 1) within the rolling window that opens the circuit.
+   * It is only evaluated when there have been at least `minimumRequests` operations within the window.
+   * If it is not specified, only `failureThreshold` applies.
+   */
+  failureRateThreshold?: number;
+  /**
+   * The minimum number of operations within the rolling window before `failureRateThreshold` is evaluated. It defaults to 10.
+   */
+  minimumRequests?: number;
+  /**
+   * The length of the rolling window (in milliseconds) for calculating the failure rate. It defaults to 60000.
+   */
+  rollingWindowMs?: number;
+  /**
+   * How long (in milliseconds) the circuit stays open before allowing probes. It defaults to 30000.
+   */
+  coolDownMs?: number;
+  /**
+   * The maximum number of concurrent probe operations allowed when the circuit is half-open. It defaults to 1.
+   */
+  halfOpenMaxConcurrent?: number;
+  /**
+   * The number of successful probes needed for closing the circuit when it is half-open. It defaults to 1.
+   */
+  successThreshold?: number;
+  /**
+   * A predicate for deciding whether an error should be counted as a failure.
+   * Errors not counted as failures are counted as successes, because they indicate that the dependency is responding.
+   * By default, all errors are counted as failures.
+   */
+  isFailure?: (error: any) => boolean;
+  /**
+   * A hook called whenever the state changes.
+   */
+  onStateChange?: (change: { from: CircuitBreakerStateType; to: CircuitBreakerStateType }) => void;
+  /**
+   * The {@link Scheduler} for reading the current time. It defaults to {@link systemScheduler}.
+   */
+  scheduler?: Scheduler;
+};
+
+/**
+ * A circuit breaker that stops calling a failing dependency for a while, so that callers fail fast
+ * instead of piling up load on something that is already down.
+ *
+ * It can wrap any async operation through `execute(...)`,
+ * and it can be combined with {@link PromiseUtils.withRetry} through the `circuitBreaker` option.
+ *
+ * @example
+ * const breaker = new CircuitBreaker({ failureThreshold: 5, coolDownMs: 10000 });
+ * // at the call sites
+ * const result = await PromiseUtils.withRetry(() => callDownstream(), [100, 200, 400], undefined, { circuitBreaker: breaker });
+ * const result2 = await breaker.execute(() => callDownstream());
+ */
+export class CircuitBreaker {
+  private currentState: CircuitBreakerStateType = CircuitBreakerState.Closed;
+  private openedAt = 0;
+  private consecutiveFailures = 0;
+  private halfOpenSuccesses = 0;
+  private probesInFlight = 0;
+  /** Incremented whenever the state changes, so that outcomes of operations started in a previous state are ignored. */
+  private generation = 0;
+  private readonly window = new Array<{ time: number; failed: boolean }>();
+
+  constructor(private readonly options: CircuitBreakerOptions = {}) {}
+
+  /**
+   * The current state. An open circuit becomes half-open when its cool-down period has elapsed.
+   */
+  get state(): CircuitBreakerStateType {
+    if (this.currentState === CircuitBreakerState.Open && this.now() - this.openedAt >= (this.options.coolDownMs ?? 30000)) {
+      this.transitionTo(CircuitBreakerState.HalfOpen);
+    }
+    return this.currentState;
+  }
+
+  /**
+   * Executes an operation through the circuit breaker.
+   * @param operation The function that performs the operation and returns a Promise.
+   * @returns The result of the operation.
+   * @throws CircuitOpenError if the circuit is open, or if it is half-open and there are already enough probes in flight.
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === CircuitBreakerState.Open) {
+      throw new CircuitOpenError(state, Math.max(0, this.openedAt + (this.options.coolDownMs ?? 30000) - this.now()));
+    }
+    const isProbe = state === CircuitBreakerState.HalfOpen;
+    if (isProbe) {
+      if (this.probesInFlight >= (this.options.halfOpenMaxConcurrent ?? 1)) {
+        throw new CircuitOpenError(state, 0);
+      }
+      this.probesInFlight++;
+    }
+    const generation = this.generation;
+    try {
+      const result = await operation();
+      this.record(generation, false);
+      return result;
+    } catch (error) {
+      this.record(generation, this.options.isFailure ? this.options.isFailure(error) : true);
+      throw error;
+    } finally {
+      if (isProbe) {
+        this.probesInFlight--;
+      }
+    }
+  }
+
+  /**
+   * Forces the circuit to close and clears all the statistics.
+   */
+  reset(): void {
+    this.transitionTo(CircuitBreakerState.Closed);
+  }
+
+  /**
+   * Forces the circuit to open, for example when a dependency is known to be under maintenance.
+   */
+  trip(): void {
+    this.transitionTo(CircuitBreakerState.Open);
+  }
+
+  private record(generation: number, failed: boolean): void {
+    if (generation !== this.generation) {
+      return;
+    }
+    if (this.currentState === CircuitBreakerState.HalfOpen) {
+      if (failed) {
+        this.transitionTo(CircuitBreakerState.Open);
+      } else if (++this.halfOpenSuccesses >= (this.options.successThreshold ?? 1)) {
+        this.transitionTo(CircuitBreakerState.Closed);
+      }
+      return;
+    }
+
+    const now = this.now();
+    this.consecutiveFailures = failed ? this.consecutiveFailures + 1 : 0;
+    this.window.push({ time: now, failed });
+    const windowStart = now - (this.options.rollingWindowMs ?? 60000);
+    while (this.window.length > 0 && this.window[0].time <= windowStart) {
+      this.window.shift();
+    }
+
+    if (this.consecutiveFailures >= (this.options.failureThreshold ?? 5)) {
+      this.transitionTo(CircuitBreakerState.Open);
+      return;
+    }
+    const { failureRateThreshold } = this.options;
+    if (failureRateThreshold !== undefined && this.window.length >= (this.options.minimumRequests ?? 10)) {
+      const failures = this.window.filter(entry => entry.failed).length;
+      if (failures / this.window.length >= failureRateThreshold) {
+        this.transitionTo(CircuitBreakerState.Open);
+      }
+    }
+  }
+
+  private transitionTo(to: CircuitBreakerStateType): void {
+    const from = this.currentState;
+    this.currentState = to;
+    this.generation++;
+    this.consecutiveFailures = 0;
+    this.halfOpenSuccesses = 0;
+    this.window.length = 0;
+    if (to === CircuitBreakerState.Open) {
+      this.openedAt = this.now();
+    }
+    if (from !== to) {
+      this.options.onStateChange?.({ from, to });
+    }
+  }
+
+  private now(): number {
+    return (this.options.scheduler ?? systemScheduler).now();
+  }
+}
+
+/**
+ * Options for {@link RetryBudget}.
+ */
+export type RetryBudgetOptions = {
+  /**
+   * The ratio of retries to successful calls, for example 0.1 allows retries to add at most 10% extra load. It defaults to 0.2.
+   */
+  retryRatio?: number;
+  /**
+   * The number of retries allowed per second regardless of the traffic, so that low traffic callers can still retry. It defaults to 10.
+   */
+  minRetriesPerSecond?: number;
+  /**
+   * The maximum number of retries that can be saved up from successful calls. It defaults to 100.
+   */
+  maxBalance?: number;
+  /**
+   * The {@link Scheduler} for reading the current time. It defaults to {@link systemScheduler}.
+   */
+  scheduler?: Scheduler;
+};
+
+/**
+ * A retry budget shared by many calls to {@link PromiseUtils.withRetry}, for preventing retry storms.
+ *
+ * It is a token bucket in which every successful call deposits `retryRatio` of a token,
+ * and every retry withdraws a whole token.
+ * On top of that, a reserve refilled at `minRetriesPerSecond` allows some retries even when there have been no successful calls recently.
+ * Under a partial outage, retries are therefore capped to a percentage of the traffic instead of multiplying it.
+ *
+ * @example
+ * const budget = new RetryBudget({ retryRatio: 0.1, minRetriesPerSecond: 5 });
+ * // at the call sites
+ * const result = await PromiseUtils.withRetry(() => callDownstream(), [100, 200, 400], undefined, { retryBudget: budget });
+ */
+export class RetryBudget {
+  private depositBalance = 0;
+  private reserveBalance: number;
+  private reserveRefilledAt: number;
+
+  constructor(private readonly options: RetryBudgetOptions = {}) {
+    this.reserveBalance = options.minRetriesPerSecond ?? 10;
+    this.reserveRefilledAt = this.now();
+  }
+
+  /**
+   * The number of retries currently allowed.
+   */
+  get balance(): number {
+    this.refillReserve();
+    return Math.floor(this.depositBalance + this.reserveBalance);
+  }
+
+  /**
+   * Records a successful call. It is called by `withRetry` automatically.
+   */
+  deposit(): void {
+    this.depositBalance = Math.min(this.options.maxBalance ?? 100, this.depositBalance + (this.options.retryRatio ?? 0.2));
+  }
+
+  /**
+   * Tries to withdraw a token for a retry. It is called by `withRetry` automatically.
+   * @returns true if the retry is allowed, false otherwise.
+   */
+  tryWithdraw(): boolean {
+    this.refillReserve();
+    if (this.reserveBalance >= 1) {
+      this.reserveBalance--;
+      return true;
+    }
+    if (this.depositBalance >= 1) {
+      this.depositBalance--;
+      return true;
+    }
+    return false;
+  }
+
+  private refillReserve(): void {
+    const now = this.now();
+    const minRetriesPerSecond = this.options.minRetriesPerSecond ?? 10;
+    this.reserveBalance = Math.min(minRetriesPerSecond, this.reserveBalance + (now - this.reserveRefilledAt) * minRetriesPerSecond / 1000);
+    this.reserveRefilledAt = now;
+  }
+
+  private now(): number {
+    return (this.options.scheduler ?? systemScheduler).now();
+  }
+}
+
+/**
+ * Options for {@link RateLimiter}.
+ */
+export type RateLimiterOptions = {
+  /**
+   * The number of permits allowed per interval.
+   */
+  limit: number;
+  /**
+   * The length of the interval in milliseconds. It defaults to 1000.
+   */
+  intervalMs?: number;
+  /**
+   * The algorithm for enforcing the rate:
+   * - `'tokenBucket'` (default): permits are replenished continuously at `limit` per `intervalMs`,
+   *   and up to `burst` unused permits can be saved up for bursts.
+   * - `'slidingWindow'`: no more than `limit` permits are granted within any period of `intervalMs`.
+   */
+  algorithm?: 'tokenBucket' | 'slidingWindow';
+  /**
+   * The capacity of the token bucket, that is, the maximum number of permits that can be granted at once. It defaults to `limit`.
+   * It is ignored by the `'slidingWindow'` algorithm.
+   */
+  burst?: number;
+  /**
+   * The {@link Scheduler} for the timers and the current time. It defaults to {@link systemScheduler}.
+   */
+  scheduler?: Scheduler;
+};
+
+/**
+ * A rate limiter for APIs limited to a number of requests per period rather than a number of concurrent requests.
+ *
+ * Callers wait in `acquire(...)` until enough permits are available, and they are served in the order they called it.
+ * It can be passed as the `rateLimiter` option to {@link PromiseUtils.inParallel}, {@link PromiseUtils.withConcurrency},
+ * {@link PromiseUtils.withRetry} and {@link PromiseUtils.runPeriodically},
+ * so that all the calls sharing the same limiter respect one combined rate.
+ *
+ * @example
+ * const limiter = new RateLimiter({ limit: 10, intervalMs: 1000, burst: 20 });
+ * // no more than 10 requests per second on average, with bursts of up to 20 requests
+ * const results = await PromiseUtils.withConcurrency(5, ids, (id) => fetchItem(id), { rateLimiter: limiter });
+ * // a heavy request that costs 5 permits
+ * await limiter.acquire(5);
+ */
+export class RateLimiter {
+  private tokens: number;
+  private refilledAt: number;
+  private readonly grants = new Array<{ time: number; cost: number }>();
+  private readonly waiters = new Array<{ cost: number; grant: () => void }>();
+  private timer: unknown;
+
+  constructor(private readonly options: RateLimiterOptions) {
+    this.tokens = this.capacity;
+    this.refilledAt = this.scheduler.now();
+  }
+
+  /**
+   * The number of permits that could be acquired right now without waiting.
+   */
+  get available(): number {
+    return Math.max(0, this.waiters.length > 0 ? 0 : Math.floor(this.capacity - this.used()));
+  }
+
+  /**
+   * Acquires permits, waiting until they are available.
+   * @param cost The number of permits to acquire. It defaults to 1.
+   * @param options Options to control the function's behavior.
+   * @param options.signal An optional `AbortSignal`. When it is aborted before the permits are granted,
+   *                       the returned Promise rejects with the abort reason (normally an `AbortError`).
+   * @returns A Promise that resolves when the permits have been granted,
+   *          or rejects with a `RangeError` immediately if `cost` is not a finite non-negative number
+   *          or is more than what could ever be granted at once.
+   */
+  acquire(cost = 1, options?: { signal?: AbortSignal }): Promise<void> {
+    const signal = options?.signal;
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortReasonOf(signal));
+        return;
+      }
+      this.validateCost(cost);
+      const onAbort = () => {
+        const index = this.waiters.indexOf(waiter);
+        if (index !== -1) {
+          this.waiters.splice(index, 1);
+          reject(abortReasonOf(signal!));
+          if (index === 0) {
+            this.drain();
+          }
+        }
+      };
+      const waiter = {
+        cost,
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+      signal?.addEventListener('abort', onAbort);
+      this.waiters.push(waiter);
+      if (this.waiters.length === 1) {
+        this.drain();
+      }
+    });
+  }
+
+  /**
+   * Acquires permits only if they are available right now and nobody else is waiting.
+   * @param cost The number of permits to acquire. It defaults to 1.
+   * @returns true if the permits have been granted, false otherwise.
+   * @throws RangeError if `cost` is not a finite non-negative number or is more than what could ever be granted at once.
+   */
+  tryAcquire(cost = 1): boolean {
+    this.validateCost(cost);
+    if (this.waiters.length > 0 || this.waitTimeFor(cost) > 0) {
+      return false;
+    }
+    this.take(cost);
+    return true;
+  }
+
+  private validateCost(cost: number): void {
+    if (!Number.isFinite(cost) || cost < 0) {
+      throw new RangeError(`The cost must be a finite non-negative number, but it is: ${cost}`);
+    }
+    if (cost > this.capacity) {
+      throw new RangeError(`Cannot acquire ${cost} permits from a rate limiter with a capacity of ${this.capacity}`);
+    }
+  }
+
+  private get capacity(): number {
+    return this.options.algorithm === 'slidingWindow' ? this.options.limit : (this.options.burst ?? this.options.limit);
+  }
+
+  private get intervalMs(): number {
+    return this.options.intervalMs ?? 1000;
+  }
+
+  private get scheduler(): Scheduler {
+    return this.options.scheduler ?? systemScheduler;
+  }
+
+  // grants permits to the waiters in order, and schedules a timer for the first one that has to wait
+  private drain(): void {
+    if (this.timer !== undefined) {
+      this.scheduler.clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    while (this.waiters.length > 0) {
+      const waitMs = this.waitTimeFor(this.waiters[0].cost);
+      if (waitMs > 0) {
+        this.timer = this.scheduler.setTimeout(() => {
+          this.timer = undefined;
+          this.drain();
+        }, waitMs);
+        return;
+      }
+      const waiter = this.waiters.shift()!;
+      this.take(waiter.cost);
+      waiter.grant();
+    }
+  }
+
+  // the number of permits in use, as of now
+  private used(): number {
+    const now = this.scheduler.now();
+    if (this.options.algorithm === 'slidingWindow') {
+      while (this.grants.length > 0 && this.grants[0].time <= now - this.intervalMs) {
+        this.grants.shift();
+      }
+      return this.grants.reduce((sum, grant) => sum + grant.cost, 0);
+    }
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.refilledAt) * this.options.limit / this.intervalMs);
+    this.refilledAt = now;
+    return this.capacity - this.tokens;
+  }
+
+  private waitTimeFor(cost: number): number {
+    const shortage = this.used() + cost - this.capacity;
+    if (shortage <= 0) {
+      return 0;
+    }
+    if (this.options.algorithm === 'slidingWindow') {
+      // wait until enough of the earliest grants have slid out of the window
+      let released = 0;
+      for (const grant of this.grants) {
+        released += grant.cost;
+        if (released >= shortage) {
+          return Math.max(1, grant.time + this.intervalMs - this.scheduler.now());
+        }
+      }
+    }
+    return Math.max(1, Math.ceil(shortage * this.intervalMs / this.options.limit));
+  }
+
+  private take(cost: number): void {
+    if (this.options.algorithm === 'slidingWindow') {
+      this.grants.push({ time: this.scheduler.now(), cost });
+    } else {
+      this.tokens -= cost;
+    }
+  }
+}
+
+/**
+ * Options for {@link AdaptiveConcurrencyLimit}.
+ */
+export type AdaptiveConcurrencyLimitOptions = {
+  /**
+   * The limit to start with. It defaults to `minLimit`.
+   */
+  initialLimit?: number;
+  /**
+   * The lower bound of the limit. It defaults to 1.
+   */
+  minLimit?: number;
+  /**
+   * The upper bound of the limit. It defaults to 100.
+   */
+  maxLimit?: number;
+  /**
+   * How much the limit grows after a full round of successful operations, that is, after `limit` operations succeeded. It defaults to 1.
+   */
+  increaseStep?: number;
+  /**
+   * The factor (between 0 and 1) applied to the limit when overload is detected. It defaults to 0.5.
+   */
+  decreaseFactor?: number;
+  /**
+   * A predicate for deciding whether an error indicates that the downstream is overloaded, typically throttling errors such as HTTP 429.
+   * Errors not indicating overload neither grow nor shrink the limit.
+   * By default, all errors indicate overload.
+   */
+  isOverloaded?: (error: any) => boolean;
+  /**
+   * If specified, successful operations slower than this (in milliseconds) also indicate overload.
+   */
+  latencyThresholdMs?: number;
+  /**
+   * A hook called whenever the limit changes.
+   */
+  onLimitChange?: (change: { from: number; to: number }) => void;
+  /**
+   * The {@link Scheduler} for measuring latency. It defaults to {@link systemScheduler}.
+   */
+  scheduler?: Scheduler;
+};
+
+/**
+ * A concurrency limit that adapts to the downstream at runtime with AIMD (additive increase, multiplicative decrease),
+ * the algorithm TCP uses for congestion control.
+ *
+ * The limit grows by `increaseStep` after every round of successful operations,
+ * and it is multiplied by `decreaseFactor` when an operation fails with an error indicating overload
+ * (or succeeds slower than `latencyThresholdMs`). Overload signals from operations started before the last decrease
+ * are ignored, so that a burst of failures from the same round only shrinks the limit once.
+ *
+ * It can be passed to {@link PromiseUtils.inParallel}, {@link PromiseUtils.withConcurrency} and {@link PromiseUtils.inParallelSettled}
+ * in place of the number of jobs to run concurrently, and it can be shared by many calls (and {@link TaskQueue}s) for the same downstream,
+ * in which case the limit caps the number of jobs running across all of them.
+ *
+ * @example
+ * const limit = new AdaptiveConcurrencyLimit({ initialLimit: 10, maxLimit: 200, isOverloaded: (error) => error.statusCode === 429 });
+ * const results = await PromiseUtils.withConcurrency(limit, items, async (item) => callDownstream(item));
+ * console.log(`Settled on a concurrency of ${limit.limit}`);
+ */
+export class AdaptiveConcurrencyLimit {
+  private estimate: number;
+  private decreases = 0;
+  private running = 0;
+
+  constructor(private readonly options: AdaptiveConcurrencyLimitOptions = {}) {
+    this.estimate = Math.min(this.maxLimit, Math.max(this.minLimit, options.initialLimit ?? this.minLimit));
+  }
+
+  /**
+   * The current limit, which is the maximum number of operations allowed to run concurrently.
+   */
+  get limit(): number {
+    return Math.floor(this.estimate);
+  }
+
+  /**
+   * The number of operations currently running through `execute(...)`.
+   */
+  get inFlight(): number {
+    return this.running;
+  }
+
+  /**
+   * Executes an operation and adjusts the limit according to its outcome.
+   * Note that it does not wait for a free slot; callers like `inParallel` are responsible for respecting `limit`.
+   * @param operation The operation to execute.
+   * @returns The result of the operation, or rejects with the error from the operation.
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const startTime = this.now();
+    const decreasesAtStart = this.decreases;
+    this.running++;
+    try {
+      const result = await operation();
+      const latencyMs = this.now() - startTime;
+      this.record(decreasesAtStart, this.options.latencyThresholdMs !== undefined && latencyMs > this.options.latencyThresholdMs, true);
+      return result;
+    } catch (error) {
+      this.record(decreasesAtStart, (this.options.isOverloaded ?? (() => true))(error), false);
+      throw error;
+    } finally {
+      this.running--;
+    }
+  }
+
+  private get minLimit(): number {
+    return Math.max(1, this.options.minLimit ?? 1);
+  }
+
+  private get maxLimit(): number {
+    return Math.max(this.minLimit, this.options.maxLimit ?? 100);
+  }
+
+  private record(decreasesAtStart: number, overloaded: boolean, succeeded: boolean): void {
+    const from = this.limit;
+    if (overloaded) {
+      if (decreasesAtStart !== this.decreases) {
+        return;
+      }
+      this.estimate = Math.max(this.minLimit, this.estimate * (this.options.decreaseFactor ?? 0.5));
+      this.decreases++;
+    } else if (succeeded) {
+      this.estimate = Math.min(this.maxLimit, this.estimate + (this.options.increaseStep ?? 1) / this.limit);
+    }
+    const to = this.limit;
+    if (from !== to) {
+      this.options.onLimitChange?.({ from, to });
+    }
+  }
+
+  private now(): number {
+    return (this.options.scheduler ?? systemScheduler).now();
+  }
+}
+
+/**
+ * Starts jobs whenever there are free slots under a concurrency limit, which could be adjusted at runtime by an {@link AdaptiveConcurrencyLimit}.
+ * It is the worker machinery shared by {@link PromiseUtils.inParallel} (and its siblings) and {@link TaskQueue},
+ * which decide what the next job is and when it takes and gives back a slot.
+ */
+class JobDispatcher {
+  // the slots taken through each AdaptiveConcurrencyLimit, and the dispatchers waiting for its slots to be given back
+  private static sharedSlots = new WeakMap<AdaptiveConcurrencyLimit, { taken: number; blocked: Set<JobDispatcher> }>();
+
+  private runningCount = 0;
+
+  /**
+   * Constructor
+   * @param concurrency The number of jobs to run concurrently, or an {@link AdaptiveConcurrencyLimit}
+   *                    which could be shared with other dispatchers.
+   * @param startNextJob The function that starts the next job and takes a slot for it,
+   *                     it returns false if there is no job to start for now.
+   * @param relaunch The function called when another dispatcher sharing the same {@link AdaptiveConcurrencyLimit}
+   *                 has given back a slot, it is expected to call `dispatch()`.
+   */
+  constructor(
+    private readonly concurrency: number | AdaptiveConcurrencyLimit,
+    private readonly startNextJob: () => boolean,
+    private readonly relaunch: () => void,
+  ) {}
+
+  /**
+   * The number of slots taken.
+   */
+  get running(): number {
+    return this.runningCount;
+  }
+
+  /**
+   * Starts as many jobs as the current limit allows.
+   * It should be called again whenever a slot is given back or a new job becomes available.
+   */
+  dispatch(): void {
+    while (this.hasFreeSlot() && this.startNextJob()) {
+      // the job has been started
+    }
+    if (!this.hasFreeSlot()) {
+      this.shared?.blocked.add(this);
+    }
+  }
+
+  acquireSlot(): void {
+    this.runningCount++;
+    if (this.shared) {
+      this.shared.taken++;
+    }
+  }
+
+  releaseSlot(): void {
+    this.runningCount--;
+    const shared = this.shared;
+    if (shared) {
+      shared.taken--;
+      const blocked = [...shared.blocked].filter(dispatcher => dispatcher !== this);
+      for (const dispatcher of blocked) {
+        shared.blocked.delete(dispatcher);
+        dispatcher.relaunch();
+      }
+    }
+  }
+
+  /**
+   * Runs the operation of a job, through the {@link AdaptiveConcurrencyLimit} if there is one.
+   * @param operation The operation.
+   * @returns The result of the operation.
+   */
+  execute<T>(operation: () => Promise<T>): Promise<T> {
+    return typeof this.concurrency === 'number' ? operation() : this.concurrency.execute(operation);
+  }
+
+  private get shared(): { taken: number; blocked: Set<JobDispatcher> } | undefined {
+    if (typeof this.concurrency === 'number') {
+      return;
+    }
+    let shared = JobDispatcher.sharedSlots.get(this.concurrency);
+    if (!shared) {
+      shared = { taken: 0, blocked: new Set() };
+      JobDispatcher.sharedSlots.set(this.concurrency, shared);
+    }
+    return shared;
+  }
+
+  private hasFreeSlot(): boolean {
+    return typeof this.concurrency === 'number'
+      ? this.runningCount < Math.max(1, Math.floor(this.concurrency))
+      : this.shared!.taken < this.concurrency.limit;
+  }
+}
+
+/**
+ * Options for {@link TaskQueue}.
+ */
+export type TaskQueueOptions = {
+  /**
+   * The number of tasks to run concurrently, or an {@link AdaptiveConcurrencyLimit} that adjusts it at runtime. It defaults to 1.
+   */
+  concurrency?: number | AdaptiveConcurrencyLimit;
+  /**
+   * Whether tasks start as soon as they are added. If it is false, the queue starts paused until `resume()` is called. It defaults to true.
+   */
+  autoStart?: boolean;
+};
+
+/**
+ * A long-lived queue that runs tasks added at any time with a concurrency limit.
+ *
+ * Tasks with higher priority run first, and tasks with the same priority run in the order they were added.
+ * Like {@link PromiseUtils.inParallel}, a new task is started whenever there is a free slot,
+ * and the failure of a task does not affect other tasks.
+ *
+ * @example
+ * const queue = new TaskQueue({ concurrency: 5 });
+ * // at any time
+ * const result = await queue.add((signal) => fetch(url, { signal }), { priority: 1 });
+ * // when shutting down
+ * queue.pause();
+ * queue.clear();
+ * await queue.onIdle();
+ */
+export class TaskQueue {
+  private readonly waiting = new Array<{ priority: number; start: () => void; cancel: (reason: any) => void }>();
+  private readonly dispatcher: JobDispatcher;
+  private paused: boolean;
+  private readonly emptyWaiters = new Array<() => void>();
+  private readonly idleWaiters = new Array<() => void>();
+
+  constructor(options: TaskQueueOptions = {}) {
+    this.paused = options.autoStart === false;
+    this.dispatcher = new JobDispatcher(options.concurrency ?? 1, () => {
+      if (this.paused || this.waiting.length === 0) {
+        return false;
       }
-    };
+      this.waiting.shift()!.start();
+      return true;
+    }, () => this.launch());
+  }
 
-    const getInterval = (iteration: number): number | undefined => {
-      if (Array.isArray(interval)) {
-        return interval[iteration - 1];
-      }
-      if (typeof interval === 'function') {
-        return interval(iteration);
+  /**
+   * The number of tasks waiting to be started.
+   */
+  get size(): number {
+    return this.waiting.length;
+  }
+
+  /**
+   * The number of tasks running.
+   */
+  get pending(): number {
+    return this.dispatcher.running;
+  }
+
+  /**
+   * Whether the queue is paused.
+   */
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Adds a task to the queue.
+   * @param operation The function that performs the task.
+   *                  It receives `options.signal` if specified.
+   * @param options Options for the task.
+   * @param options.priority The priority of the task, a larger number means a higher priority. It defaults to 0.
+   * @param options.signal An optional `AbortSignal`. When it is aborted before the task starts, the task is removed from the queue
+   *                       and the returned Promise rejects with the abort reason (normally an `AbortError`).
+   * @returns A Promise that settles with the outcome of the task.
+   */
+  add<T>(operation: (signal?: AbortSignal) => Promise<T>, options?: { priority?: number; signal?: AbortSignal }): Promise<T> {
+    const signal = options?.signal;
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortReasonOf(signal));
+        return;
       }
-      return interval;
-    };
+      const onAbort = () => {
+        const index = this.waiting.indexOf(entry);
+        if (index !== -1) {
+          this.waiting.splice(index, 1);
+          reject(abortReasonOf(signal!));
+          this.notify();
+        }
+      };
+      const entry = {
+        priority: options?.priority ?? 0,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.dispatcher.acquireSlot();
+          const promise = new Promise<T>(resolveTask => resolveTask(this.dispatcher.execute(() => operation(signal))));
+          promise.then(resolve, reject).then(() => {
+            this.dispatcher.releaseSlot();
+            this.launch();
+          });
+        },
+        cancel: (reason: any) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(reason);
+        },
+      };
+      signal?.addEventListener('abort', onAbort);
+      // insert after all the tasks with the same or higher priority
+      const index = this.waiting.findIndex(waitingEntry => waitingEntry.priority < entry.priority);
+      this.waiting.splice(index === -1 ? this.waiting.length : index, 0, entry);
+      this.launch();
+    });
+  }
 
-    const done = (async () => {
-      const startTime = Date.now();
-      let iteration = 0;
-      // lastStart tracks the start time of the previous iteration (used by delayBetweenStarts)
-      let lastStart = Date.now();
+  /**
+   * Stops starting new tasks. Running tasks are not affected.
+   */
+  pause(): void {
+    this.paused = true;
+  }
 
-      while (!stopped) {
-        const nextIteration = iteration + 1;
-        const nextInterval = getInterval(nextIteration);
-        if (nextInterval == null || nextInterval < 0) break;
+  /**
+   * Resumes starting new tasks.
+   */
+  resume(): void {
+    this.paused = false;
+    this.launch();
+  }
 
-        const schedule = options?.schedule ?? 'delayBetweenStarts';
-        const waitMs = schedule === 'delayBetweenStarts'
-          ? Math.max(0, lastStart + nextInterval - Date.now())
-          : nextInterval;
+  /**
+   * Removes all the waiting tasks from the queue. The Promises returned by `add(...)` for them reject with an `AbortError`.
+   * Running tasks are not affected.
+   */
+  clear(): void {
+    const reason = new DOMException('The task has been removed from the queue', 'AbortError');
+    for (const entry of this.waiting.splice(0)) {
+      entry.cancel(reason);
+    }
+    this.notify();
+  }
 
-        // wait (cancelable via stop() which clears the timeout and resolves the wait)
-        await new Promise<void>(resolve => {
-          waitResolve = resolve;
-          timer = setTimeout(() => { timer = undefined; waitResolve = undefined; resolve(); }, waitMs);
-        });
-        waitResolve = undefined;
-        if (stopped) break;
+  /**
+   * Waits until there is no task waiting to be started, though some tasks may still be running.
+   * @returns A Promise that resolves when the queue becomes empty, or immediately if it is already empty.
+   */
+  onEmpty(): Promise<void> {
+    return this.waiting.length === 0 ? Promise.resolve() : new Promise(resolve => this.emptyWaiters.push(resolve));
+  }
 
-        iteration = nextIteration;
-        lastStart = Date.now();
+  /**
+   * Waits until there is no task waiting or running.
+   * @returns A Promise that resolves when the queue becomes idle, or immediately if it is already idle.
+   */
+  onIdle(): Promise<void> {
+    return this.waiting.length === 0 && this.dispatcher.running === 0 ? Promise.resolve() : new Promise(resolve => this.idleWaiters.push(resolve));
+  }
 
-        // let errors propagate to the done promise so caller can decide handling
-        await operation(iteration);
+  private launch(): void {
+    this.dispatcher.dispatch();
+    this.notify();
+  }
 
-        if (options?.maxExecutions && iteration >= options.maxExecutions) break;
-        if (options?.maxDurationMs && (Date.now() - startTime) >= options.maxDurationMs) break;
+  private notify(): void {
+    if (this.waiting.length === 0) {
+      for (const resolve of this.emptyWaiters.splice(0)) {
+        resolve();
       }
-    })();
-
-    return { stop, done };
+      if (this.dispatcher.running === 0) {
+        for (const resolve of this.idleWaiters.splice(0)) {
+          resolve();
+        }
+      }
+    }
   }
 }
 
-/* c8 ignore next */
-/**
- * Executes an operation repeatedly and collects all the results.
- * This function is very useful for many scenarios, such like client-side pagination.
- *
- * @param operation A function that takes a parameter as input and returns a result. Typically, the parameter has optional fields to control paging.
- * @param nextParameter A function for calculating the next parameter from the operation result. Normally, this parameter controls paging. This function should return null when no further invocation of the operation function is desired. If further invocation is desired, the return value of this function can be a Promise or a non-Promise value.
- * @param collect A function for merging the operation result into the collection.
- * @param initialCollection The initial collection, which will be the first argument passed to the first invocation of the collect function.
- * @param initialParameter The parameter for the first operation.
- * @returns A promise that resolves to a collection of all the results returned by the operation function.
- */
-export const repeat = PromiseUtils.repeat;
-
-/* c8 ignore next */
 /**
- * Repeatedly performs an operation until a specified criteria is met.
- *
- * @param operation A function that outputs a Promise result. Typically, the operation does not use its arguments.
- * @param backoff An array of retry backoff periods (in milliseconds) or a function for calculating them.
- * @param shouldRetry A predicate function for deciding whether another call to the operation should occur.
- * @returns A promise of the operation result, potentially with retries applied.
+ * The error thrown when a lock cannot be acquired within the specified timeout.
  */
-export const withRetry = PromiseUtils.withRetry;
+export class LockTimeoutError extends Error {
+  /**
+   * Constructor
+   * @param mode The mode in which the lock was requested, such as `'read'` or `'write'`, `'mutex'` for a {@link Mutex}, `'semaphore'` for permits of a {@link Semaphore},
+   *             or `'backend'` for a lease from the {@link LockBackend} of {@link PromiseUtils.synchronized}.
+   * @param timeoutMs The timeout in milliseconds.
+   */
+  constructor(readonly mode: string, readonly timeoutMs: number) {
+    super(`Could not acquire the ${mode} lock within ${timeoutMs}ms`);
+    this.name = 'LockTimeoutError';
+  }
+}
 
-/* c8 ignore next */
 /**
- * Executes multiple jobs/operations with a specified level of concurrency.
- *
- * @param concurrency The number of jobs/operations to run concurrently.
- * @param jobs The job data to be processed. This function can handle an infinite or unknown number of elements safely.
- * @param operation The function that processes job data asynchronously.
- * @returns A promise that resolves to an array containing the results from the operation function.
- *          The results in the returned array are in the same order as the corresponding elements in the jobs array.
+ * Options for {@link ReadWriteLock}.
  */
-export const withConcurrency = PromiseUtils.withConcurrency;
+export type ReadWriteLockOptions = {
+  /**
+   * The default timeout (in milliseconds) for acquiring the lock, which can be overridden by each call.
+   * If it is not specified, operations wait for the lock for as long as it takes.
+   */
+  timeoutMs?: number;
+  /**
+   * The {@link Scheduler} for the timeouts. It defaults to {@link systemScheduler}.
+   */
+  scheduler?: Scheduler;
+};
 
-/* c8 ignore next */
 /**
- * Executes multiple jobs/operations in parallel. By default, all operations are executed regardless of any failures.
- * In most cases, using withConcurrency might be more convenient.
+ * A lock that allows many concurrent readers or one exclusive writer.
  *
- * By default, this function does not throw or reject an error when any job/operation fails.
- * Errors from operations are returned alongside results in the returned array.
- * This function only resolves when all jobs/operations are settled (either resolved or rejected).
+ * It prefers writers: once a writer is waiting, readers coming after it wait until it has finished,
+ * so that a steady stream of readers can not starve writers.
+ * Readers waiting behind a writer are all let in together when the writer has finished.
  *
- * If options.abortOnError is set to true, this function throws (or rejects with) an error immediately when any job/operation fails.
- * In this mode, no further operations will be started after a failure occurs.
+ * Like {@link PromiseUtils.synchronized}, the operation function has access to the state (when `read`/`write` is called),
+ * settledState (when the operation function is called), and result (either the fulfilled result or the rejected reason)
+ * of the previous write operation. State is `Pending` when there is a write operation running or waiting.
+ * If there has been no write operation, state, settledState, and result will all be undefined.
  *
- * @param parallelism The number of jobs/operations to run concurrently.
- * @param jobs The job data to be processed. This function can safely handle an infinite or unknown number of elements.
- * @param operation The function that processes job data asynchronously.
- * @param options Options to control the function's behavior.
- * @param options.abortOnError If true, the function aborts and throws an error on the first failed operation.
- * @returns A promise that resolves to an array containing the results of the operations.
- *  Each element is either a fulfilled result or a rejected error/reason.
- *  The results or errors in the returned array are in the same order as the corresponding elements in the jobs array.
+ * @example
+ * const cacheLock = new ReadWriteLock({ timeoutMs: 5000 });
+ * // many of them can run at the same time
+ * const value = await cacheLock.read(async () => cache.get(key));
+ * // only one of them can run at a time, and no reader runs at the same time
+ * await cacheLock.write(async (_previousState, _previousSettledState, previousRefreshTime) => refreshCache(previousRefreshTime));
  */
-export const inParallel = PromiseUtils.inParallel;
+export class ReadWriteLock {
+  private readonly queue = new Array<{ mode: 'read' | 'write'; grant: () => void }>();
+  private activeReaders = 0;
+  private writerActive = false;
+  private pendingWrites = 0;
+  private lastWrite?: { settledState: PromiseStateType; result: any };
+
+  constructor(private readonly options: ReadWriteLockOptions = {}) {}
+
+  /**
+   * The number of read operations running.
+   */
+  get readers(): number {
+    return this.activeReaders;
+  }
+
+  /**
+   * Whether a write operation is running.
+   */
+  get isWriting(): boolean {
+    return this.writerActive;
+  }
+
+  /**
+   * The number of read and write operations waiting for the lock.
+   */
+  get queueDepth(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Runs an operation holding the lock in shared (read) mode.
+   * @param operation The function that performs the read and returns a Promise.
+   *                  It receives the state, settled state and result of the previous write operation.
+   * @param options Options for this operation.
+   * @param options.timeoutMs The timeout (in milliseconds) for acquiring the lock, overriding the one in the options of the constructor.
+   *                          When it is exceeded, the returned Promise rejects with a {@link LockTimeoutError}.
+   * @param options.signal An optional `AbortSignal`. When it is aborted before the lock is acquired, the operation is removed from the queue
+   *                       and the returned Promise rejects with the abort reason (normally an `AbortError`).
+   * @returns The result of the operation function.
+   */
+  read<T>(
+    operation: (previousState: PromiseStateType | undefined, previousSettledState: PromiseStateType | undefined, previousResult: any) => Promise<T>,
+    options?: { timeoutMs?: number; signal?: AbortSignal },
+  ): Promise<T> {
+    return this.execute('read', operation, options);
+  }
+
+  /**
+   * Runs an operation holding the lock in exclusive (write) mode.
+   * @param operation The function that performs the write and returns a Promise.
+   *                  It receives the state, settled state and result of the previous write operation.
+   * @param options Options for this operation.
+   * @param options.timeoutMs The timeout (in milliseconds) for acquiring the lock, overriding the one in the options of the constructor.
+   *                          When it is exceeded, the returned Promise rejects with a {@link LockTimeoutError}.
+   * @param options.signal An optional `AbortSignal`. When it is aborted before the lock is acquired, the operation is removed from the queue
+   *                       and the returned Promise rejects with the abort reason (normally an `AbortError`).
+   * @returns The result of the operation function.
+   */
+  write<T>(
+    operation: (previousState: PromiseStateType | undefined, previousSettledState: PromiseStateType | undefined, previousResult: any) => Promise<T>,
+    options?: { timeoutMs?: number; signal?: AbortSignal },
+  ): Promise<T> {
+    return this.execute('write', operation, options);
+  }
+
+  private execute<T>(
+    mode: 'read' | 'write',
+    operation: (previousState: PromiseStateType | undefined, previousSettledState: PromiseStateType | undefined, previousResult: any) => Promise<T>,
+    options?: { timeoutMs?: number; signal?: AbortSignal },
+  ): Promise<T> {
+    const signal = options?.signal;
+    const previousState = this.pendingWrites > 0 ? PromiseState.Pending : this.lastWrite?.settledState;
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortReasonOf(signal));
+        return;
+      }
+      const run = () => {
+        if (mode === 'read') {
+          this.activeReaders++;
+        } else {
+          this.writerActive = true;
+        }
+        const previousWrite = this.lastWrite;
+        const promise = new Promise<T>(resolveOperation => resolveOperation(operation(previousState, previousWrite?.settledState, previousWrite?.result)));
+        const release = (settledState: PromiseStateType, result: any) => {
+          if (mode === 'read') {
+            this.activeReaders--;
+          } else {
+            this.writerActive = false;
+            this.pendingWrites--;
+            this.lastWrite = { settledState, result };
+          }
+          this.dispatch();
+        };
+        promise.then(
+          result => {
+            release(PromiseState.Fulfilled, result);
+            resolve(result);
+          },
+          error => {
+            release(PromiseState.Rejected, error);
+            reject(error);
+          },
+        );
+      };
+      if (mode === 'write') {
+        this.pendingWrites++;
+      }
+      if (this.queue.length === 0 && !this.writerActive && (mode === 'read' || this.activeReaders === 0)) {
+        run();
+        return;
+      }
+
+      const scheduler = this.options.scheduler ?? systemScheduler;
+      const timeoutMs = options?.timeoutMs ?? this.options.timeoutMs;
+      let timer: unknown;
+      const cancel = (reason: any) => {
+        const index = this.queue.indexOf(entry);
+        if (index === -1) {
+          return;
+        }
+        this.queue.splice(index, 1);
+        if (mode === 'write') {
+          this.pendingWrites--;
+        }
+        if (timer !== undefined) {
+          scheduler.clearTimeout(timer);
+        }
+        signal?.removeEventListener('abort', onAbort);
+        reject(reason);
+        this.dispatch(); // readers waiting behind a cancelled writer may be able to go
+      };
+      const onAbort = () => cancel(abortReasonOf(signal!));
+      const entry = {
+        mode,
+        grant: () => {
+          if (timer !== undefined) {
+            scheduler.clearTimeout(timer);
+          }
+          signal?.removeEventListener('abort', onAbort);
+          run();
+        },
+      };
+      this.queue.push(entry);
+      signal?.addEventListener('abort', onAbort);
+      if (timeoutMs !== undefined) {
+        timer = scheduler.setTimeout(() => cancel(new LockTimeoutError(mode, timeoutMs)), timeoutMs);
+      }
+    });
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0 && !this.writerActive) {
+      if (this.queue[0].mode === 'write') {
+        if (this.activeReaders === 0) {
+          this.queue.shift()!.grant();
+        }
+        break;
+      }
+      this.queue.shift()!.grant();
+    }
+  }
+}
 
-/* c8 ignore next */
 /**
- * Creates a Promise that resolves after a specified number of milliseconds.
- *
- * The result argument may be:
- * - a value to resolve with,
- * - a PromiseLike whose resolution will be adopted by the returned Promise, or
- * - a function which is invoked when the timer fires and may return a value or a PromiseLike.
- *
- * If result is a function, it is called when the timer elapses; if it returns a Promise,
- * the returned Promise will adopt that Promise's outcome.
- *
- * @param ms The number of milliseconds after which the created Promise will resolve.
- * @param result The result to be resolved by the Promise, or a function that supplies the result.
- * @returns A Promise that resolves with the specified result after the specified delay.
+ * Options for {@link Semaphore}.
  */
-export const delayedResolve = PromiseUtils.delayedResolve;
+export type SemaphoreOptions = {
+  /**
+   * The total number of permits, such as the number of connections in a pool.
+   */
+  permits: number;
+  /**
+   * The default timeout (in milliseconds) for acquiring permits, which can be overridden by each call.
+   * If it is not specified, callers wait for permits for as long as it takes.
+   */
+  timeoutMs?: number;
+  /**
+   * The {@link Scheduler} for the timeouts. It defaults to {@link systemScheduler}.
+   */
+  scheduler?: Scheduler;
+};
 
-/* c8 ignore next */
 /**
- * Creates a Promise that rejects after a specified number of milliseconds.
- *
- * The reason argument may be:
- * - a value to reject with,
- * - a PromiseLike whose rejection will be adopted by the returned Promise, or
- * - a function which is invoked when the timer fires and may return a value or a PromiseLike.
+ * A counting semaphore for capping concurrent access to a resource across unrelated call sites,
+ * for example, no more than 5 database connections in use at any time.
  *
- * If reason is a function, it is called when the timer elapses; if it returns a Promise,
- * the returned Promise will reject with that Promise's rejection reason (or reject with the
- * returned value if it resolves).
+ * Callers are served in the order they called `acquire(...)`: a caller waiting for many permits
+ * is not overtaken by later callers asking for fewer permits, so that heavy callers can not be starved.
  *
- * @param ms The number of milliseconds after which the created Promise will reject.
- * @param reason The reason for the rejection, or a function that supplies the reason.
- * @returns A Promise that rejects with the specified reason after the specified delay.
+ * @example
+ * const connections = new Semaphore({ permits: 5, timeoutMs: 10000 });
+ * // at the call sites
+ * const rows = await connections.run(() => db.query(sql));
+ * // or manually
+ * await connections.acquire();
+ * try {
+ *   await db.query(sql);
+ * } finally {
+ *   connections.release();
+ * }
  */
-export const delayedReject = PromiseUtils.delayedReject;
+export class Semaphore {
+  private inUse = 0;
+  private readonly waiters = new Array<{ weight: number; grant: () => void }>();
+
+  constructor(private readonly options: SemaphoreOptions) {}
+
+  /**
+   * The number of permits not in use.
+   * Note that they might not be acquirable right now if some callers are waiting for more permits than this.
+   */
+  get available(): number {
+    return this.options.permits - this.inUse;
+  }
+
+  /**
+   * The number of callers waiting for permits.
+   */
+  get waiting(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Acquires permits, waiting until they are available. The permits must be released by `release(...)` when no longer needed.
+   * @param weight The number of permits to acquire. It defaults to 1.
+   * @param options Options to control the function's behavior.
+   * @param options.timeoutMs The timeout (in milliseconds) for acquiring the permits, overriding the one in the options of the constructor.
+   *                          When it is exceeded, the returned Promise rejects with a {@link LockTimeoutError}.
+   * @param options.signal An optional `AbortSignal`. When it is aborted before the permits are granted,
+   *                       the returned Promise rejects with the abort reason (normally an `AbortError`).
+   * @returns A Promise that resolves when the permits have been granted,
+   *          or rejects with a `RangeError` immediately if `weight` is not a finite positive number or is more than the total number of permits.
+   */
+  acquire(weight = 1, options?: { timeoutMs?: number; signal?: AbortSignal }): Promise<void> {
+    const signal = options?.signal;
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortReasonOf(signal));
+        return;
+      }
+      this.validateWeight(weight);
+      if (weight > this.options.permits) {
+        reject(new RangeError(`Cannot acquire ${weight} permits from a semaphore with ${this.options.permits} permits`));
+        return;
+      }
+      if (this.tryAcquire(weight)) {
+        resolve();
+        return;
+      }
+
+      const scheduler = this.options.scheduler ?? systemScheduler;
+      const timeoutMs = options?.timeoutMs ?? this.options.timeoutMs;
+      let timer: unknown;
+      const cancel = (reason: any) => {
+        const index = this.waiters.indexOf(waiter);
+        if (index === -1) {
+          return;
+        }
+        this.waiters.splice(index, 1);
+        if (timer !== undefined) {
+          scheduler.clearTimeout(timer);
+        }
+        signal?.removeEventListener('abort', onAbort);
+        reject(reason);
+        this.drain(); // the callers behind may be able to go
+      };
+      const onAbort = () => cancel(abortReasonOf(signal!));
+      const waiter = {
+        weight,
+        grant: () => {
+          if (timer !== undefined) {
+            scheduler.clearTimeout(timer);
+          }
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+      this.waiters.push(waiter);
+      signal?.addEventListener('abort', onAbort);
+      if (timeoutMs !== undefined) {
+        timer = scheduler.setTimeout(() => cancel(new LockTimeoutError('semaphore', timeoutMs)), timeoutMs);
+      }
+    });
+  }
+
+  /**
+   * Acquires permits only if they are available right now and nobody else is waiting.
+   * @param weight The number of permits to acquire. It defaults to 1.
+   * @returns true if the permits have been granted, false otherwise.
+   * @throws RangeError if `weight` is not a finite positive number.
+   */
+  tryAcquire(weight = 1): boolean {
+    this.validateWeight(weight);
+    if (this.waiters.length > 0 || this.inUse + weight > this.options.permits) {
+      return false;
+    }
+    this.inUse += weight;
+    return true;
+  }
+
+  /**
+   * Releases permits acquired earlier, and grants them to the callers waiting.
+   * @param weight The number of permits to release. It defaults to 1.
+   * @throws RangeError if `weight` is not a finite positive number, or if releasing more permits than those in use.
+   */
+  release(weight = 1): void {
+    this.validateWeight(weight);
+    if (weight > this.inUse) {
+      throw new RangeError(`Cannot release ${weight} permits when only ${this.inUse} permits are in use`);
+    }
+    this.inUse -= weight;
+    this.drain();
+  }
+
+  /**
+   * Runs an operation holding permits, which are always released when the operation settles.
+   * @param operation The function that performs the operation and returns a Promise.
+   *                  It receives `options.signal` if specified.
+   * @param options Options to control the function's behavior.
+   * @param options.weight The number of permits to hold. It defaults to 1.
+   * @param options.timeoutMs The timeout (in milliseconds) for acquiring the permits, overriding the one in the options of the constructor.
+   * @param options.signal An optional `AbortSignal` for giving up waiting for the permits.
+   * @returns The result of the operation function.
+   */
+  async run<T>(operation: (signal?: AbortSignal) => Promise<T>, options?: { weight?: number; timeoutMs?: number; signal?: AbortSignal }): Promise<T> {
+    const weight = options?.weight ?? 1;
+    await this.acquire(weight, options);
+    try {
+      return await operation(options?.signal);
+    } finally {
+      this.release(weight);
+    }
+  }
+
+  private validateWeight(weight: number): void {
+    if (!Number.isFinite(weight) || weight <= 0) {
+      throw new RangeError(`The weight must be a finite positive number, but it is: ${weight}`);
+    }
+  }
+
+  // grants permits to the waiters in order, until the first one that can not be satisfied yet
+  private drain(): void {
+    while (this.waiters.length > 0 && this.inUse + this.waiters[0].weight <= this.options.permits) {
+      const waiter = this.waiters.shift()!;
+      this.inUse += waiter.weight;
+      waiter.grant();
+    }
+  }
+}
 
-/* c8 ignore next */
 /**
- * Creates a cancellable timer that will resolve after a specified number of milliseconds.
- *
- * The returned object contains:
- * - stop() to cancel the scheduled resolution (if called before the timer fires). Calling
- *   stop() prevents the promise from being settled by this timer.
- * - promise which will resolve with the supplied result (or the value returned by the
- *   result function) after ms milliseconds unless stop() is called first.
- *
- * If the result is a PromiseLike, its resolution value will be used as the resolved value.
- *
- * @param ms The number of milliseconds after which the scheduled resolution will occur.
- * @param result The result to be resolved by the Promise, or a function that supplies the result.
- * @returns An object with stop() and promise.
+ * Options for {@link Mutex} and {@link KeyedMutex}.
  */
-export const cancellableDelayedResolve = PromiseUtils.cancellableDelayedResolve;
+export type MutexOptions = {
+  /**
+   * The default timeout (in milliseconds) for acquiring the lock, which can be overridden by each call.
+   * If it is not specified, callers wait for the lock for as long as it takes.
+   */
+  timeoutMs?: number;
+  /**
+   * The maximum time (in milliseconds) the lock can be held. When it is exceeded, the lock is released by force,
+   * so that a hung holder can not block everybody else forever, and `onForceRelease` is called.
+   * If it is not specified, the lock is held until it is released by the holder.
+   */
+  maxHoldTimeMs?: number;
+  /**
+   * A hook called after the lock has been released by force because of `maxHoldTimeMs`, typically for logging a warning.
+   * The `key` is provided only by {@link KeyedMutex}.
+   */
+  onForceRelease?: (event: { heldMs: number; key?: unknown }) => void;
+  /**
+   * The {@link Scheduler} for the timeouts. It defaults to {@link systemScheduler}.
+   */
+  scheduler?: Scheduler;
+};
 
-/* c8 ignore next */
 /**
- * Creates a cancellable timer that will reject after a specified number of milliseconds.
- *
- * The returned object contains:
- * - stop() to cancel the scheduled rejection (if called before the timer fires). Calling
- *   stop() prevents the promise from being settled by this timer.
- * - promise which will reject with the supplied reason (or the value returned by the
- *   reason function) after ms milliseconds unless stop() is called first.
+ * A mutual exclusion lock. Unlike {@link PromiseUtils.synchronized}, callers can give up waiting
+ * through a timeout or an `AbortSignal`, and the lock can be released by force when it has been held for too long.
  *
- * If the reason is a PromiseLike that rejects, its rejection value will be used as the rejection reason.
+ * Callers are served in the order they called `lock(...)`.
  *
- * @param ms The number of milliseconds after which the scheduled rejection will occur.
- * @param reason The reason for the rejection, or a function that supplies the reason.
- * @returns An object with stop() and promise.
+ * @example
+ * const mutex = new Mutex({ timeoutMs: 5000, maxHoldTimeMs: 60000, onForceRelease: ({ heldMs }) => console.warn(`Lock released by force after ${heldMs}ms`) });
+ * const release = await mutex.lock();
+ * try {
+ *   await updateSharedState();
+ * } finally {
+ *   release();
+ * }
  */
-export const cancellableDelayedReject = PromiseUtils.cancellableDelayedReject;
+export class Mutex {
+  private locked = false;
+  private readonly waiters = new Array<() => void>();
 
-/* c8 ignore next */
-/**
- * Applies a timeout to a Promise or a function that returns a Promise.
- * If the timeout occurs, the returned Promise resolves to the specified result.
- * If the timeout does not occur, the returned Promise resolves or rejects based on the outcome of the original Promise.
- * If the result parameter is a function and the timeout does not occur, the function will not be called.
- * Note: The rejection of the operation parameter is not handled by this function. 
- * You may want to handle it outside this function to avoid warnings like "(node:4330) PromiseRejectionHandledWarning: Promise rejection was handled asynchronously."
- *
- * @param operation The original Promise or a function that returns a Promise to which the timeout will be applied.
- * @param ms The number of milliseconds for the timeout.
- * @param result The result to resolve with if the timeout occurs, or a function that supplies the result.
- * @returns A new Promise that resolves to the specified result if the timeout occurs.
- */
-export const timeoutResolve = PromiseUtils.timeoutResolve;
+  constructor(private readonly options: MutexOptions = {}) {}
 
-/* c8 ignore next */
-/**
- * Applies a timeout to a Promise or a function that returns a Promise.
- * If the timeout occurs, the returned Promise rejects with the specified reason.
- * If the timeout does not occur, the returned Promise resolves or rejects based on the outcome of the original Promise.
- * If the rejectReason parameter is a function and the timeout does not occur, the function will not be called.
- * Note: The rejection of the operation parameter is not handled by this function. You may want to handle it outside this function to avoid warnings like "(node:4330) PromiseRejectionHandledWarning: Promise rejection was handled asynchronously."
- *
- * @param operation The original Promise or a function that returns a Promise to which the timeout will be applied.
- * @param ms The number of milliseconds for the timeout.
- * @param rejectReason The reason to reject with if the timeout occurs, or a function that supplies the reason.
- * @returns A new Promise that rejects with the specified reason if the timeout occurs.
- */
-export const timeoutReject = PromiseUtils.timeoutReject;
+  /**
+   * Whether the lock is being held.
+   */
+  get isLocked(): boolean {
+    return this.locked;
+  }
+
+  /**
+   * The number of callers waiting for the lock.
+   */
+  get waiting(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Acquires the lock, waiting until it is available.
+   * @param options Options to control the function's behavior.
+   * @param options.timeoutMs The timeout (in milliseconds) for acquiring the lock, overriding the one in the options of the constructor.
+   *                          When it is exceeded, the returned Promise rejects with a {@link LockTimeoutError}.
+   * @param options.signal An optional `AbortSignal`. When it is aborted before the lock is acquired,
+   *                       the returned Promise rejects with the abort reason (normally an `AbortError`).
+   * @returns A Promise of the function for releasing the lock, which can be called more than once safely.
+   */
+  lock(options?: { timeoutMs?: number; signal?: AbortSignal }): Promise<() => void> {
+    const signal = options?.signal;
+    return new Promise<() => void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortReasonOf(signal));
+        return;
+      }
+      const release = this.tryLock();
+      if (release) {
+        resolve(release);
+        return;
+      }
+
+      const scheduler = this.scheduler;
+      const timeoutMs = options?.timeoutMs ?? this.options.timeoutMs;
+      let timer: unknown;
+      const cancel = (reason: any) => {
+        const index = this.waiters.indexOf(waiter);
+        if (index === -1) {
+          return;
+        }
+        this.waiters.splice(index, 1);
+        if (timer !== undefined) {
+          scheduler.clearTimeout(timer);
+        }
+        signal?.removeEventListener('abort', onAbort);
+        reject(reason);
+      };
+      const onAbort = () => cancel(abortReasonOf(signal!));
+      const waiter = () => {
+        if (timer !== undefined) {
+          scheduler.clearTimeout(timer);
+        }
+        signal?.removeEventListener('abort', onAbort);
+        resolve(this.hold());
+      };
+      this.waiters.push(waiter);
+      signal?.addEventListener('abort', onAbort);
+      if (timeoutMs !== undefined) {
+        timer = scheduler.setTimeout(() => cancel(new LockTimeoutError('mutex', timeoutMs)), timeoutMs);
+      }
+    });
+  }
+
+  /**
+   * Acquires the lock only if it is available right now and nobody else is waiting.
+   * @returns The function for releasing the lock, or undefined if the lock has not been acquired.
+   */
+  tryLock(): (() => void) | undefined {
+    if (this.locked || this.waiters.length > 0) {
+      return;
+    }
+    return this.hold();
+  }
+
+  private get scheduler(): Scheduler {
+    return this.options.scheduler ?? systemScheduler;
+  }
+
+  private hold(): () => void {
+    this.locked = true;
+    const scheduler = this.scheduler;
+    const acquiredAt = scheduler.now();
+    let released = false;
+    let holdTimer: unknown;
+    const release = () => {
+      if (released) {
+        return; // a late release by a holder whose lock has been released by force
+      }
+      released = true;
+      if (holdTimer !== undefined) {
+        scheduler.clearTimeout(holdTimer);
+      }
+      this.locked = false;
+      const next = this.waiters.shift();
+      if (next) {
+        next();
+      }
+    };
+    const maxHoldTimeMs = this.options.maxHoldTimeMs;
+    if (maxHoldTimeMs !== undefined) {
+      holdTimer = scheduler.setTimeout(() => {
+        holdTimer = undefined;
+        release();
+        this.options.onForceRelease?.({ heldMs: scheduler.now() - acquiredAt });
+      }, maxHoldTimeMs);
+    }
+    return release;
+  }
+}
 
-/* c8 ignore next */
 /**
- * Provides mutual exclusion similar to synchronized in Java.
- * Ensures no concurrent execution of any operation function associated with the same lock.
- * The operation function has access to the state (when synchronized is called),
- * settledState (when the operation function is called),
- * and result (either the fulfilled result or the rejected reason) of the previous operation.
- * If there is no previous invocation, state, settledState, and result will all be undefined.
+ * A set of {@link Mutex} identified by keys, such as one lock per user ID.
+ * The lock of a key is created when it is needed, and forgotten when it is neither held nor waited for,
+ * so that using many distinct keys does not leak memory.
  *
- * @param lock The object (such as a string, a number, or this in a class) used to identify the lock.
- * @param operation The function that performs the computation and returns a Promise.
- * @returns The result of the operation function.
+ * @example
+ * const userLocks = new KeyedMutex({ timeoutMs: 5000 });
+ * const release = await userLocks.lock(userId);
+ * try {
+ *   await updateUser(userId);
+ * } finally {
+ *   release();
+ * }
  */
-export const synchronized = PromiseUtils.synchronized;
+export class KeyedMutex {
+  private readonly mutexes = new Map<unknown, Mutex>();
+
+  constructor(private readonly options: MutexOptions = {}) {}
+
+  /**
+   * The number of keys whose locks are held or waited for.
+   */
+  get size(): number {
+    return this.mutexes.size;
+  }
+
+  /**
+   * Checks whether the lock of a key is being held.
+   * @param key The key identifying the lock.
+   * @returns true if the lock is being held.
+   */
+  isLocked(key: unknown): boolean {
+    return this.mutexes.get(key)?.isLocked ?? false;
+  }
+
+  /**
+   * Acquires the lock of a key, waiting until it is available. See {@link Mutex.lock} for details.
+   * @param key The key identifying the lock.
+   * @param options Options to control the function's behavior.
+   * @param options.timeoutMs The timeout (in milliseconds) for acquiring the lock, overriding the one in the options of the constructor.
+   * @param options.signal An optional `AbortSignal` for giving up waiting for the lock.
+   * @returns A Promise of the function for releasing the lock, which can be called more than once safely.
+   */
+  async lock(key: unknown, options?: { timeoutMs?: number; signal?: AbortSignal }): Promise<() => void> {
+    const mutex = this.mutexFor(key);
+    try {
+      const release = await mutex.lock(options);
+      return this.releaseAndForget(key, mutex, release);
+    } catch (error) {
+      this.forgetIfIdle(key, mutex);
+      throw error;
+    }
+  }
+
+  /**
+   * Acquires the lock of a key only if it is available right now and nobody else is waiting.
+   * @param key The key identifying the lock.
+   * @returns The function for releasing the lock, or undefined if the lock has not been acquired.
+   */
+  tryLock(key: unknown): (() => void) | undefined {
+    const mutex = this.mutexFor(key);
+    const release = mutex.tryLock();
+    return release && this.releaseAndForget(key, mutex, release);
+  }
+
+  private mutexFor(key: unknown): Mutex {
+    let mutex = this.mutexes.get(key);
+    if (mutex === undefined) {
+      mutex = new Mutex({
+        ...this.options,
+        onForceRelease: (event) => {
+          this.forgetIfIdle(key, mutex!);
+          this.options.onForceRelease?.({ ...event, key });
+        },
+      });
+      this.mutexes.set(key, mutex);
+    }
+    return mutex;
+  }
+
+  private releaseAndForget(key: unknown, mutex: Mutex, release: () => void): () => void {
+    return () => {
+      release();
+      this.forgetIfIdle(key, mutex);
+    };
+  }
+
+  private forgetIfIdle(key: unknown, mutex: Mutex): void {
+    if (!mutex.isLocked && mutex.waiting === 0 && this.mutexes.get(key) === mutex) {
+      this.mutexes.delete(key);
+    }
+  }
+}
 
-/* c8 ignore next */
 /**
- * This is just another spelling of synchronized.
- * @param lock The object (such as a string, a number, or this in a class) used to identify the lock.
- * @param operation The function that performs the computation and returns a Promise.
- * @returns The result of the operation function.
+ * Options for {@link InMemoryLockBackend}.
  */
-export const synchronised = PromiseUtils.synchronised;
+export type InMemoryLockBackendOptions = {
+  /**
+   * The {@link Scheduler} for the lease expiry. It defaults to {@link systemScheduler}.
+   */
+  scheduler?: Scheduler;
+};
 
-/* c8 ignore next */
 /**
- * Retrieves the state of the specified Promise.
- * Note: The returned value is a Promise that resolves immediately.
- *
- * @param p The Promise whose state is to be determined.
- * @returns A Promise that resolves immediately with the state of the input Promise.
+ * A {@link LockBackend} keeping the leases in memory, which coordinates only within the current process.
+ * It is the default backend of {@link PromiseUtils.synchronized}, and it is handy for testing code that takes a {@link LockBackend}.
  */
-export const promiseState = PromiseUtils.promiseState;
+export class InMemoryLockBackend implements LockBackend {
+  private readonly leases = new Map<string, { token: string; expiresAt: number }>();
+  private readonly waiters = new Map<string, Array<() => void>>();
+  private lastToken = 0;
+
+  constructor(private readonly options: InMemoryLockBackendOptions = {}) {}
+
+  /**
+   * Acquires the lock of a key, waiting until it is released or its lease has expired. See {@link LockBackend}.
+   * @param key The key identifying the lock.
+   * @param ttlMs How long (in milliseconds) the lease lasts unless it is renewed.
+   * @param options Options for this call.
+   * @param options.signal An optional `AbortSignal` for giving up waiting.
+   * @returns A Promise of the token identifying the lease.
+   */
+  acquire(key: string, ttlMs: number, options?: { signal?: AbortSignal }): Promise<string> {
+    const signal = options?.signal;
+    const scheduler = this.options.scheduler ?? systemScheduler;
+    return new Promise<string>((resolve, reject) => {
+      let expiryTimer: unknown;
+      const attempt = () => {
+        if (expiryTimer !== undefined) {
+          scheduler.clearTimeout(expiryTimer);
+          expiryTimer = undefined;
+        }
+        const lease = this.leases.get(key);
+        const now = scheduler.now();
+        if (lease === undefined || lease.expiresAt <= now) {
+          signal?.removeEventListener('abort', onAbort);
+          const token = String(++this.lastToken);
+          this.leases.set(key, { token, expiresAt: now + ttlMs });
+          resolve(token);
+          return;
+        }
+        this.addWaiter(key, attempt);
+        expiryTimer = scheduler.setTimeout(() => {
+          expiryTimer = undefined;
+          this.removeWaiter(key, attempt);
+          attempt();
+        }, lease.expiresAt - now);
+      };
+      const onAbort = () => {
+        if (expiryTimer !== undefined) {
+          scheduler.clearTimeout(expiryTimer);
+        }
+        this.removeWaiter(key, attempt);
+        reject(abortReasonOf(signal!));
+      };
+      if (signal?.aborted) {
+        reject(abortReasonOf(signal));
+        return;
+      }
+      signal?.addEventListener('abort', onAbort);
+      attempt();
+    });
+  }
+
+  /**
+   * Extends a lease, unless it has expired. See {@link LockBackend}.
+   * @param key The key identifying the lock.
+   * @param token The token returned by `acquire(...)`.
+   * @param ttlMs How long (in milliseconds) the lease lasts from now.
+   * @returns A Promise of true if the lease has been extended, or false if it has been lost.
+   */
+  async renew(key: string, token: string, ttlMs: number): Promise<boolean> {
+    const lease = this.leases.get(key);
+    const now = (this.options.scheduler ?? systemScheduler).now();
+    if (lease?.token !== token || lease.expiresAt <= now) {
+      return false;
+    }
+    lease.expiresAt = now + ttlMs;
+    return true;
+  }
+
+  /**
+   * Releases a lease, and lets the next caller waiting for it acquire it. See {@link LockBackend}.
+   * @param key The key identifying the lock.
+   * @param token The token returned by `acquire(...)`.
+   */
+  async release(key: string, token: string): Promise<void> {
+    if (this.leases.get(key)?.token !== token) {
+      return;
+    }
+    this.leases.delete(key);
+    const waiters = this.waiters.get(key);
+    if (waiters !== undefined) {
+      this.waiters.delete(key);
+      // the first one takes the lock, and the others wait again
+      for (const attempt of waiters) {
+        attempt();
+      }
+    }
+  }
+
+  private addWaiter(key: string, attempt: () => void): void {
+    const waiters = this.waiters.get(key);
+    if (waiters === undefined) {
+      this.waiters.set(key, [attempt]);
+    } else {
+      waiters.push(attempt);
+    }
+  }
+
+  private removeWaiter(key: string, attempt: () => void): void {
+    const waiters = this.waiters.get(key);
+    const index = waiters?.indexOf(attempt) ?? -1;
+    if (index !== -1) {
+      waiters!.splice(index, 1);
+      if (waiters!.length === 0) {
+        this.waiters.delete(key);
+      }
+    }
+  }
+}
+
+// the default lock backend of PromiseUtils.synchronized
+const defaultLockBackend = new InMemoryLockBackend();
 
-/* c8 ignore next */
 /**
- * Runs an operation periodically with configurable intervals and stopping conditions.
+ * A {@link Scheduler} with virtual time, for testing code that relies on timers deterministically and quickly.
  *
- * - `interval` may be a single number (ms), an array of numbers, or a function
- *   that receives the iteration number (starting at 1) and returns the next
- *   interval in milliseconds or `undefined` to stop.
- * - If the interval array runs out of elements or the function returns `undefined`
- *   (or a negative value), no further invocations will be scheduled.
- *
- * Options:
- * - `maxExecutions` stop after N runs (inclusive).
- * - `maxDurationMs` stop after elapsed ms since the first scheduled start.
- * - `schedule` controls how the interval is measured:
- *   - `'delayAfterEnd'`: wait the interval after the previous operation completes
- *     before scheduling the next one (equivalent to a fixed delay between ends).
- *   - `'delayBetweenStarts'`: keep start times on a regular schedule (interval measured
- *     between the starts of successive operations).
- *   The default schedule is `'delayBetweenStarts'`.
- *
- * Returns an object with `stop()` to cancel further executions and `done` which
- * resolves when the periodic runner stops. If the provided `operation` throws or
- * rejects, the `done` promise will reject with that error so callers can handle it.
- *
- * Note: The first invocation of `operation` is scheduled after the first interval
- * elapses (i.e. this function does NOT call `operation` immediately). If you need
- * an immediate run, invoke `operation(1)` yourself before calling `runPeriodically`.
+ * Time does not pass by itself. It only moves forward when `advance(...)` or `runAll()` is called,
+ * which fire the due timers in order and let pending Promise callbacks run between timers,
+ * so that the code under test can react to each timer (for example, by scheduling the next one) before time moves on.
  *
- * @template T The operation return type (ignored by the runner; used for typing).
- * @param operation Function to run each iteration. Receives the iteration index (1-based).
- * @param interval Number | number[] | ((iteration: number) => number|undefined) defining waits.
- * @param options Optional configuration.
- * @param options.maxExecutions Stop after N executions.
- * @param options.maxDurationMs Stop after N milliseconds.
- * @param options.schedule How to measure intervals: `'delayAfterEnd'` or `'delayBetweenStarts'`.
- * @returns An object containing `stop()` to cancel further executions and `done` Promise
- *          which resolves when the periodic runner stops (or rejects if the operation errors).
+ * @example
+ * const scheduler = new VirtualScheduler();
+ * const promise = PromiseUtils.withRetry(() => callDownstream(), [1000, 2000], undefined, { scheduler });
+ * await scheduler.advance(1000); // the second attempt happens
+ * await scheduler.runAll(); // all the remaining attempts happen
+ * await expect(promise).to.be.rejected;
  */
-export const runPeriodically = PromiseUtils.runPeriodically;
+export class VirtualScheduler implements Scheduler {
+  private currentTime: number;
+  private nextHandle = 1;
+  private timers = new Array<{ handle: number; time: number; callback: () => void }>();
+
+  /**
+   * Constructor
+   * @param startTime The initial value of `now()`. It defaults to 0.
+   */
+  constructor(startTime = 0) {
+    this.currentTime = startTime;
+  }
+
+  /**
+   * The number of timers that have been scheduled but have not fired or been cleared.
+   */
+  get pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  now(): number {
+    return this.currentTime;
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const handle = this.nextHandle++;
+    this.timers.push({ handle, time: this.currentTime + Math.max(0, ms || 0), callback });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown): void {
+    const index = this.timers.findIndex(timer => timer.handle === handle);
+    if (index !== -1) {
+      this.timers.splice(index, 1);
+    }
+  }
+
+  /**
+   * Lets all the pending Promise callbacks (microtasks) run, without moving the time forward.
+   */
+  async flushMicrotasks(): Promise<void> {
+    await new Promise<void>(resolve => (typeof setImmediate === 'function' ? setImmediate(resolve) : setTimeout(resolve, 0)));
+  }
+
+  /**
+   * Moves the time forward, firing all the timers that become due on the way in order,
+   * including those scheduled by the callbacks of earlier timers.
+   * Pending Promise callbacks are flushed before and after each timer.
+   * @param ms The number of milliseconds to move forward.
+   */
+  async advance(ms: number): Promise<void> {
+    const targetTime = this.currentTime + ms;
+    await this.flushMicrotasks();
+    let timer = this.takeNextTimer(targetTime);
+    while (timer) {
+      this.currentTime = timer.time;
+      timer.callback();
+      await this.flushMicrotasks();
+      timer = this.takeNextTimer(targetTime);
+    }
+    this.currentTime = targetTime;
+    await this.flushMicrotasks();
+  }
+
+  /**
+   * Moves the time forward until there is no pending timer left.
+   * Pending Promise callbacks are flushed before and after each timer.
+   * @param maxTimers The maximum number of timers to fire, for protecting against endless loops
+   *                  such as a `runPeriodically` that never stops. It defaults to 10000.
+   */
+  async runAll(maxTimers = 10000): Promise<void> {
+    await this.flushMicrotasks();
+    for (let fired = 0; this.timers.length > 0; fired++) {
+      if (fired >= maxTimers) {
+        throw new Error(`Still having pending timers after firing ${maxTimers} timers`);
+      }
+      const timer = this.takeNextTimer(Number.POSITIVE_INFINITY)!;
+      this.currentTime = Math.max(this.currentTime, timer.time);
+      timer.callback();
+      await this.flushMicrotasks();
+    }
+  }
+
+  private takeNextTimer(notAfter: number): { handle: number; time: number; callback: () => void } | undefined {
+    let next: { handle: number; time: number; callback: () => void } | undefined;
+    for (const timer of this.timers) {
+      // timers due at the same time fire in the order they were scheduled
+      if (timer.time <= notAfter && (next === undefined || timer.time < next.time)) {
+        next = timer;
+      }
+    }
+    if (next) {
+      this.timers.splice(this.timers.indexOf(next), 1);
+    }
+    return next;
+  }
+}
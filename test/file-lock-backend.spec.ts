@@ -0,0 +1,211 @@
+import * as chai from 'chai';
+import { expect } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import { promises as fs } from 'node:fs';
+import { hostname, tmpdir } from 'node:os';
+import path from 'node:path';
+chai.use(chaiAsPromised);
+
+import { FileLockBackend } from '../src/file-lock-backend';
+import { PromiseUtils } from '../src/promise-utils';
+
+// runs the action right before the next call of a file system function, for simulating other processes racing for the lock file
+function beforeNextCall(name: 'link' | 'rename' | 'rm', action: () => Promise<void>) {
+  const original: (...args: any[]) => Promise<void> = fs[name];
+  (fs as any)[name] = async (...args: any[]) => {
+    (fs as any)[name] = original;
+    await action();
+    return original(...args);
+  };
+}
+const failure = (code: string) => async () => {
+  throw Object.assign(new Error(code), { code });
+};
+
+describe('FileLockBackend', () => {
+  let directory: string;
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(tmpdir(), 'file-lock-backend-'));
+  });
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should let only one holder have the lock at a time', async () => {
+    const backend1 = new FileLockBackend({ directory, pollIntervalMs: 5 });
+    const backend2 = new FileLockBackend({ directory, pollIntervalMs: 5 });
+    const token1 = await backend1.acquire('migration/1', 10000);
+    let acquired = false;
+    const acquiring = backend2.acquire('migration/1', 10000).then(token => {
+      acquired = true;
+      return token;
+    });
+    await PromiseUtils.delayedResolve(30);
+    expect(acquired).to.be.false;
+    await backend2.release('migration/1', token1.replace(/.$/, 'x')); // not the holder
+    await backend1.release('migration/1', token1);
+    const token2 = await acquiring;
+    expect(token2).to.not.eq(token1);
+    expect(await fs.readdir(directory)).to.deep.equal(['migration%2F1.lock']);
+    await backend2.release('migration/1', token2);
+    expect(await fs.readdir(directory)).to.deep.equal([]);
+  });
+  it('should renew a lease and take over an expired one', async () => {
+    const backend = new FileLockBackend({ directory, pollIntervalMs: 5 });
+    const token1 = await backend.acquire('key', 40);
+    expect(await backend.renew('key', token1, 40)).to.be.true;
+    const token2 = await backend.acquire('key', 10000);
+    expect(await backend.renew('key', token1, 40)).to.be.false;
+    await backend.release('key', token1); // too late, it must not remove the lock file of the new holder
+    expect(await backend.renew('key', token2, 10000)).to.be.true;
+  });
+  it('should not overwrite a lock file taken over by others while renewing', async () => {
+    const backend = new FileLockBackend({ directory });
+    const file = path.join(directory, 'key.lock');
+    const token = await backend.acquire('key', 10000);
+    const otherLease = JSON.stringify({ token: 'other', hostname: hostname(), pid: process.pid, expiresAt: Date.now() + 60000 });
+    beforeNextCall('rename', () => fs.writeFile(file, otherLease));
+    expect(await backend.renew('key', token, 10000)).to.be.false;
+    expect(await fs.readFile(file, 'utf8')).to.eq(otherLease);
+    expect(await fs.readdir(directory)).to.deep.equal(['key.lock']);
+
+    await fs.rm(file);
+    const token2 = await backend.acquire('key', 10000);
+    beforeNextCall('rename', () => fs.rm(file));
+    expect(await backend.renew('key', token2, 10000)).to.be.false;
+    expect(await fs.readdir(directory)).to.deep.equal([]);
+  });
+  it('should not remove a lock file taken over by others while releasing', async () => {
+    const backend = new FileLockBackend({ directory });
+    const file = path.join(directory, 'key.lock');
+    const token = await backend.acquire('key', 10000);
+    const otherLease = JSON.stringify({ token: 'other', hostname: hostname(), pid: process.pid, expiresAt: Date.now() + 60000 });
+    beforeNextCall('rename', () => fs.writeFile(file, otherLease));
+    await backend.release('key', token);
+    expect(await fs.readFile(file, 'utf8')).to.eq(otherLease);
+    expect(await fs.readdir(directory)).to.deep.equal(['key.lock']);
+  });
+  it('should take over a lock file left by a process that is no longer running', async () => {
+    await fs.writeFile(path.join(directory, 'key.lock'), JSON.stringify({ token: 'dead', hostname: hostname(), pid: 999999999, expiresAt: Date.now() + 60000 }));
+    const backend = new FileLockBackend({ directory });
+    const token = await PromiseUtils.timeoutReject(backend.acquire('key', 10000), 1000, new Error('Timed out'));
+    expect(JSON.parse(await fs.readFile(path.join(directory, 'key.lock'), 'utf8')).token).to.eq(token);
+  });
+  it('should wait for the lease of a process on another host to expire', async () => {
+    const file = path.join(directory, 'key.lock');
+    await fs.writeFile(file, JSON.stringify({ token: 'remote', hostname: `not-${hostname()}`, pid: process.pid, expiresAt: Date.now() + 150 }));
+    const backend = new FileLockBackend({ directory });
+    let acquired = false;
+    const acquiring = backend.acquire('key', 10000).then(token => {
+      acquired = true;
+      return token;
+    });
+    await PromiseUtils.delayedResolve(100);
+    expect(acquired).to.be.false;
+    const token = await PromiseUtils.timeoutReject(acquiring, 1000, new Error('Timed out'));
+    expect(JSON.parse(await fs.readFile(file, 'utf8')).token).to.eq(token);
+  });
+  it('should take over a stale lock file removed by others in the meantime', async () => {
+    const file = path.join(directory, 'key.lock');
+    await fs.writeFile(file, JSON.stringify({ token: 'expired', hostname: hostname(), pid: process.pid, expiresAt: Date.now() - 1000 }));
+    const backend = new FileLockBackend({ directory });
+    beforeNextCall('rename', () => fs.rm(file));
+    const token = await PromiseUtils.timeoutReject(backend.acquire('key', 10000), 1000, new Error('Timed out'));
+    expect(JSON.parse(await fs.readFile(file, 'utf8')).token).to.eq(token);
+  });
+  it('should try again when the lock file is removed right after failing to create one', async () => {
+    const file = path.join(directory, 'key.lock');
+    const backend = new FileLockBackend({ directory, pollIntervalMs: 5 });
+    beforeNextCall('link', () => fs.writeFile(file, JSON.stringify({ token: 'other', hostname: hostname(), pid: process.pid, expiresAt: Date.now() + 60000 })));
+    beforeNextCall('rm', () => fs.rm(file));
+    const token = await PromiseUtils.timeoutReject(backend.acquire('key', 10000), 1000, new Error('Timed out'));
+    expect(JSON.parse(await fs.readFile(file, 'utf8')).token).to.eq(token);
+    await backend.release('key', token);
+    await backend.release('key', token); // the lock file does not exist any more
+    expect(await fs.readdir(directory)).to.deep.equal([]);
+  });
+  it('should wait for an empty lock file to become as old as the lease', async () => {
+    const file = path.join(directory, 'key.lock');
+    await fs.writeFile(file, '');
+    const backend = new FileLockBackend({ directory, pollIntervalMs: 20 });
+    let attempts = 0;
+    const originalLink = fs.link;
+    fs.link = async (...args) => {
+      attempts++;
+      return originalLink(...args);
+    };
+    try {
+      const startTime = Date.now();
+      const token = await PromiseUtils.timeoutReject(backend.acquire('key', 200), 1000, new Error('Timed out'));
+      expect(Date.now() - startTime).to.be.gte(150);
+      expect(attempts).to.be.lessThan(20); // polling rather than spinning
+      expect(JSON.parse(await fs.readFile(file, 'utf8')).token).to.eq(token);
+    } finally {
+      fs.link = originalLink;
+    }
+  });
+  it('should take over a corrupted lock file older than the lease', async () => {
+    const file = path.join(directory, 'key.lock');
+    await fs.writeFile(file, '{"token":');
+    const modifiedAt = new Date(Date.now() - 20000);
+    await fs.utimes(file, modifiedAt, modifiedAt);
+    const backend = new FileLockBackend({ directory, pollIntervalMs: 10000 });
+    const token = await PromiseUtils.timeoutReject(backend.acquire('key', 10000), 1000, new Error('Timed out'));
+    expect(JSON.parse(await fs.readFile(file, 'utf8')).token).to.eq(token);
+    expect(await fs.readdir(directory)).to.deep.equal(['key.lock']);
+  });
+  it('should not remove a lock file replaced by a fresh one in the meantime', async () => {
+    const file = path.join(directory, 'key.lock');
+    await fs.writeFile(file, JSON.stringify({ token: 'expired', hostname: hostname(), pid: process.pid, expiresAt: Date.now() - 1000 }));
+    const freshLease = JSON.stringify({ token: 'fresh', hostname: hostname(), pid: process.pid, expiresAt: Date.now() + 60000 });
+    const backend = new FileLockBackend({ directory, pollIntervalMs: 5 });
+    beforeNextCall('rename', () => fs.writeFile(file, freshLease));
+    const controller = new AbortController();
+    const acquiring = backend.acquire('key', 10000, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 30);
+    await expect(acquiring).to.be.rejectedWith(DOMException, /aborted/);
+    expect(await fs.readFile(file, 'utf8')).to.eq(freshLease);
+    expect(await fs.readdir(directory)).to.deep.equal(['key.lock']);
+  });
+  it('should fail on unexpected file system errors', async () => {
+    const backend = new FileLockBackend({ directory });
+    await fs.mkdir(path.join(directory, 'directory.lock'));
+    await expect(backend.acquire('directory', 10000)).to.be.rejectedWith(/EISDIR/);
+
+    beforeNextCall('link', failure('EPERM'));
+    await expect(backend.acquire('key', 10000)).to.be.rejectedWith('EPERM');
+
+    await fs.writeFile(path.join(directory, 'key.lock'), JSON.stringify({ token: 'expired', hostname: hostname(), pid: process.pid, expiresAt: Date.now() - 1000 }));
+    beforeNextCall('rename', failure('EACCES'));
+    await expect(backend.acquire('key', 10000)).to.be.rejectedWith('EACCES');
+  });
+  it('should not wait when the signal has been aborted already', async () => {
+    const backend = new FileLockBackend({ directory });
+    await expect(backend.acquire('key', 10000, { signal: AbortSignal.abort() })).to.be.rejectedWith(DOMException, /aborted/);
+    expect(await fs.readdir(directory)).to.deep.equal([]);
+  });
+  it('should stop waiting when the signal is aborted', async () => {
+    const backend = new FileLockBackend({ directory, pollIntervalMs: 5 });
+    await backend.acquire('key', 10000);
+    const controller = new AbortController();
+    const acquiring = backend.acquire('key', 10000, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+    await expect(acquiring).to.be.rejectedWith(DOMException, /aborted/);
+  });
+  it('should coordinate synchronized operations through lock files', async () => {
+    const other = new FileLockBackend({ directory });
+    const otherToken = await other.acquire('migration', 10000);
+    const backend = new FileLockBackend({ directory, pollIntervalMs: 5 });
+    let ran = false;
+    const promise = PromiseUtils.synchronized('migration', async () => {
+      ran = true;
+      return 'migrated';
+    }, { backend });
+    await PromiseUtils.delayedResolve(30);
+    expect(ran).to.be.false;
+    await other.release('migration', otherToken);
+    expect(await promise).to.eq('migrated');
+    expect(await fs.readdir(directory)).to.deep.equal([]);
+  });
+});
@@ -6,11 +6,66 @@ import chaiAsPromised from 'chai-as-promised';
 import { describe, it } from 'mocha';
 chai.use(chaiAsPromised);
 
-import { cancellableDelayedReject, cancellableDelayedResolve, PromiseState, PromiseUtils } from '../src/promise-utils';
+import { AdaptiveConcurrencyLimit, AttemptTimeoutError, Backoff, cancellableDelayedReject, cancellableDelayedResolve, CircuitBreaker, CircuitBreakerState, CircuitOpenError, EXPONENTIAL_SEQUENCE, FIBONACCI_SEQUENCE, InMemoryLockBackend, InParallelProgress, JobsAbortedError, KeyedMutex, LockTimeoutError, Mutex, PromiseState, PromiseUtils, RateLimiter, ReadWriteLock, RetryBudget, RetryExhaustedError, Semaphore, TaskQueue, VirtualScheduler } from '../src/promise-utils';
 
 const ALLOWED_DEVIATION = 20;
 
+const take = (backoff: Iterable<number>, n: number) => [...Backoff.from(() => backoff[Symbol.iterator]()).withMaxAttempts(n)];
+const withRandom = <T>(value: number, fn: () => T): T => {
+  const originalRandom = Math.random;
+  Math.random = () => value;
+  try {
+    return fn();
+  } finally {
+    Math.random = originalRandom;
+  }
+};
+const failDown = () => Promise.reject(new Error('down'));
+const succeedUp = () => Promise.resolve('up');
+const collect = async <T>(iterable: AsyncIterable<T>) => {
+  const results: T[] = [];
+  for await (const result of iterable) {
+    results.push(result);
+  }
+  return results;
+};
+const countActiveTimers = () => process.getActiveResourcesInfo().filter(type => type === 'Timeout').length;
+
 describe('PromiseUtils', () => {
+  describe('repeat(...)', () => {
+    it('should collect results until nextParameter returns null', async () => {
+      const result = await PromiseUtils.repeat(
+        async (param: { page?: number }) => param.page ?? 0,
+        page => page < 3 ? { page: page + 1 } : null,
+        (collection: number[], page) => [...collection, page],
+        [],
+      );
+      expect(result).to.deep.equal([0, 1, 2, 3]);
+    });
+    it('should reject with AbortError and stop invoking the operation when the signal is aborted', async () => {
+      const controller = new AbortController();
+      let count = 0;
+      let receivedSignal: AbortSignal | undefined;
+      const promise = PromiseUtils.repeat(
+        async (_param, signal) => {
+          count++;
+          receivedSignal = signal;
+          return PromiseUtils.delayedResolve(20, count);
+        },
+        () => ({}),
+        (collection: number[], n) => [...collection, n],
+        [],
+        {},
+        { signal: controller.signal },
+      );
+      setTimeout(() => controller.abort(), 50);
+      await expect(promise).to.be.rejected.and.eventually.have.property('name', 'AbortError');
+      const countWhenAborted = count;
+      await PromiseUtils.delayedResolve(50);
+      expect(count).to.eq(countWhenAborted);
+      expect(receivedSignal).to.eq(controller.signal);
+    });
+  });
   describe('withRetry(...)', () => {
     it('should retry always rejecting operation in the way specified in backoff array', () => {
       const ERROR_MSG = 'this is the error message';
@@ -96,6 +151,339 @@ describe('PromiseUtils', () => {
                 BACKOFF_PERIODS.slice(0, 2).forEach((expectedTime, i) => expect(Math.abs(deltas[i] - expectedTime)).lt(ALLOWED_DEVIATION));
               });
     });
+    it('should reject promptly with AbortError when the signal is aborted during backoff', async () => {
+      const controller = new AbortController();
+      let count = 0;
+      let receivedSignal: AbortSignal | undefined;
+      const startTime = Date.now();
+      const promise = PromiseUtils.withRetry(async (_attempt, _previousResult, _previousError, signal) => {
+        count++;
+        receivedSignal = signal;
+        throw new Error('failed');
+      }, [1000, 1000], undefined, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 30);
+      await expect(promise).to.be.rejected.and.eventually.have.property('name', 'AbortError');
+      expect(Date.now() - startTime).to.be.lt(30 + ALLOWED_DEVIATION);
+      expect(count).to.eq(1);
+      expect(receivedSignal).to.eq(controller.signal);
+    });
+    it('should retry in the way specified by a Backoff', async () => {
+      let count = 0;
+      const promise = PromiseUtils.withRetry(async () => {
+        count++;
+        throw new Error('failed');
+      }, Backoff.constant(10).withMaxAttempts(3));
+      await expect(promise).to.be.rejectedWith('failed');
+      expect(count).to.eq(4);
+    });
+    describe('with server-provided retry delay', () => {
+      class HttpError extends Error {
+        constructor(public statusCode: number, public retryAfter?: string) {
+          super(`HTTP ${statusCode}`);
+        }
+      }
+      const retryAfterMs = (error: HttpError | undefined) => PromiseUtils.parseRetryAfter(error?.retryAfter);
+      it('should let the server-provided delay override the backoff by default', async () => {
+        const times: number[] = [];
+        const result = await PromiseUtils.withRetry<string, HttpError>(async attempt => {
+          times.push(Date.now());
+          if (attempt === 1) {
+            throw new HttpError(429, '0.05');
+          }
+          if (attempt === 2) {
+            throw new HttpError(500);
+          }
+          return 'ok';
+        }, [1000, 20], undefined, { retryAfterMs });
+        expect(result).to.eq('ok');
+        expect(Math.abs(times[1] - times[0] - 50)).to.be.lt(ALLOWED_DEVIATION);
+        expect(Math.abs(times[2] - times[1] - 20)).to.be.lt(ALLOWED_DEVIATION);
+      });
+      it('should use the longer delay in atLeastBackoff mode', async () => {
+        const times: number[] = [];
+        const promise = PromiseUtils.withRetry<string, HttpError>(async () => {
+          times.push(Date.now());
+          throw new HttpError(503, times.length === 1 ? '0.01' : '0.08');
+        }, [50, 50], undefined, { retryAfterMs, retryAfterMode: 'atLeastBackoff' });
+        await expect(promise).to.be.rejectedWith('HTTP 503');
+        expect(times.length).to.eq(3);
+        expect(Math.abs(times[1] - times[0] - 50)).to.be.lt(ALLOWED_DEVIATION);
+        expect(Math.abs(times[2] - times[1] - 80)).to.be.lt(ALLOWED_DEVIATION);
+      });
+      it('should still stop when the backoff runs out', async () => {
+        let count = 0;
+        const promise = PromiseUtils.withRetry<string, HttpError>(async () => {
+          count++;
+          throw new HttpError(429, '0');
+        }, [10, 10], undefined, { retryAfterMs });
+        await expect(promise).to.be.rejectedWith('HTTP 429');
+        expect(count).to.eq(3);
+      });
+      it('should give up instead of waiting beyond the deadline', async () => {
+        let count = 0;
+        const startTime = Date.now();
+        const promise = PromiseUtils.withRetry<string, HttpError>(async () => {
+          count++;
+          throw new HttpError(429, count === 1 ? '0.03' : '3600');
+        }, [10, 10, 10], undefined, { retryAfterMs, deadlineMs: 1000 });
+        await expect(promise).to.be.rejectedWith('HTTP 429');
+        expect(count).to.eq(2);
+        expect(Date.now() - startTime).to.be.lt(30 + ALLOWED_DEVIATION);
+      });
+      it('should apply the deadline to the backoff as well', async () => {
+        let count = 0;
+        const promise = PromiseUtils.withRetry(async () => {
+          count++;
+          throw new Error('failed');
+        }, Backoff.constant(40), undefined, { deadlineMs: 100 });
+        await expect(promise).to.be.rejectedWith('failed');
+        expect(count).to.eq(3);
+      });
+    });
+    describe('with lifecycle hooks', () => {
+      it('should fire onAttempt, onRetry and onSuccess', async () => {
+        const events: string[] = [];
+        let successInfo: any;
+        const result = await PromiseUtils.withRetry(async attempt => {
+          if (attempt < 3) {
+            throw new Error(`failure ${attempt}`);
+          }
+          return 'ok';
+        }, [10, 20, 30], undefined, {
+          onAttempt: ({ attempt }) => events.push(`attempt ${attempt}`),
+          onRetry: ({ attempt, error, delayMs }) => events.push(`retry ${attempt} ${error.message} ${delayMs}`),
+          onSuccess: info => { successInfo = info; },
+          onGiveUp: () => events.push('give up'),
+        });
+        expect(result).to.eq('ok');
+        expect(events).to.deep.equal(['attempt 1', 'retry 1 failure 1 10', 'attempt 2', 'retry 2 failure 2 20', 'attempt 3']);
+        expect(successInfo.attempts).to.eq(3);
+        expect(successInfo.result).to.eq('ok');
+        expect(successInfo.totalDelayMs).to.eq(30);
+        expect(successInfo.elapsedMs).to.be.at.least(30);
+      });
+      it('should fire onGiveUp when the backoff runs out', async () => {
+        let giveUpInfo: any;
+        let successCalled = false;
+        const promise = PromiseUtils.withRetry(async () => {
+          throw new Error('failed');
+        }, [10, 10], undefined, {
+          onSuccess: () => { successCalled = true; },
+          onGiveUp: info => { giveUpInfo = info; },
+        });
+        await expect(promise).to.be.rejectedWith('failed');
+        expect(successCalled).to.be.false;
+        expect(giveUpInfo.attempts).to.eq(3);
+        expect(giveUpInfo.error.message).to.eq('failed');
+        expect(giveUpInfo.reason).to.eq('backoffExhausted');
+        expect(giveUpInfo.totalDelayMs).to.eq(20);
+      });
+      it('should report shouldRetry and deadline as give up reasons', async () => {
+        const reasons: string[] = [];
+        await expect(PromiseUtils.withRetry(async () => {
+          throw new Error('fatal');
+        }, [10], () => false, { onGiveUp: ({ reason }) => reasons.push(reason) })).to.be.rejectedWith('fatal');
+        await expect(PromiseUtils.withRetry(async () => {
+          throw new Error('slow');
+        }, [1000], undefined, { deadlineMs: 100, onGiveUp: ({ reason }) => reasons.push(reason) })).to.be.rejectedWith('slow');
+        expect(reasons).to.deep.equal(['shouldRetry', 'deadline']);
+      });
+      it('should not fire onGiveUp when aborted', async () => {
+        const controller = new AbortController();
+        let giveUpCalled = false;
+        const promise = PromiseUtils.withRetry(async () => {
+          throw new Error('failed');
+        }, [1000], undefined, { signal: controller.signal, onGiveUp: () => { giveUpCalled = true; } });
+        setTimeout(() => controller.abort(), 10);
+        await expect(promise).to.be.rejected.and.eventually.have.property('name', 'AbortError');
+        expect(giveUpCalled).to.be.false;
+      });
+    });
+    describe('with throwRetryExhaustedError', () => {
+      it('should reject with RetryExhaustedError carrying all the attempts when the backoff runs out', async () => {
+        const startTime = Date.now();
+        const promise = PromiseUtils.withRetry(async attempt => {
+          if (attempt === 2) {
+            return 'not good enough';
+          }
+          throw new Error(`failure ${attempt}`);
+        }, [10, 20], (error, result) => error !== undefined || result === 'not good enough', { throwRetryExhaustedError: true });
+        const error: RetryExhaustedError = await promise.then(() => expect.fail('should reject'), error => error);
+        expect(error).to.be.instanceOf(RetryExhaustedError);
+        expect(error).to.be.instanceOf(AggregateError);
+        expect(error.name).to.eq('RetryExhaustedError');
+        expect(error.reason).to.eq('backoffExhausted');
+        expect(error.errors.map(e => e.message)).to.deep.equal(['failure 1', 'failure 3']);
+        expect(error.lastError.message).to.eq('failure 3');
+        expect(error.message).to.contain('3 attempt(s)').and.contain('backoffExhausted').and.contain('failure 3');
+        expect(error.attempts.map(a => a.attempt)).to.deep.equal([1, 2, 3]);
+        expect(error.attempts[1].result).to.eq('not good enough');
+        expect(error.attempts.map(a => a.delayMs)).to.deep.equal([10, 20, undefined]);
+        expect(error.totalDelayMs).to.eq(30);
+        expect(error.elapsedMs).to.be.at.least(30);
+        expect(error.attempts[0].startTime).to.be.at.least(startTime);
+        expect(error.attempts[1].startTime - error.attempts[0].endTime).to.be.at.least(10 - 1);
+      });
+      it('should distinguish shouldRetry from running out of backoff', async () => {
+        const promise = PromiseUtils.withRetry(async attempt => {
+          throw new Error(attempt === 1 ? 'transient' : 'fatal');
+        }, [10, 10], error => error.message === 'transient', { throwRetryExhaustedError: true });
+        await expect(promise).to.be.rejectedWith(RetryExhaustedError).and.eventually.include({ reason: 'shouldRetry' });
+      });
+      it('should still resolve with the result', async () => {
+        const result = await PromiseUtils.withRetry(async attempt => {
+          if (attempt === 1) {
+            throw new Error('transient');
+          }
+          return 'ok';
+        }, [10], undefined, { throwRetryExhaustedError: true });
+        expect(result).to.eq('ok');
+      });
+    });
+    describe('with perAttemptTimeoutMs', () => {
+      it('should time out slow attempts, abort them and retry', async () => {
+        const abortReasons: any[] = [];
+        const signals = new Set<AbortSignal | undefined>();
+        const result = await PromiseUtils.withRetry(async (attempt, _previousResult, _previousError, signal) => {
+          signals.add(signal);
+          signal!.addEventListener('abort', () => abortReasons.push(signal!.reason));
+          return PromiseUtils.delayedResolve(attempt < 3 ? 100 : 10, `result ${attempt}`);
+        }, [10, 10], error => error instanceof AttemptTimeoutError, { perAttemptTimeoutMs: 30 });
+        expect(result).to.eq('result 3');
+        expect(signals.size).to.eq(3);
+        expect(abortReasons.length).to.eq(2);
+        expect(abortReasons[0]).to.be.instanceOf(AttemptTimeoutError).and.include({ attempt: 1, timeoutMs: 30 });
+        expect(abortReasons[1]).to.be.instanceOf(AttemptTimeoutError).and.include({ attempt: 2, timeoutMs: 30 });
+      });
+      it('should give up with AttemptTimeoutError when the timeout is not retryable', async () => {
+        let count = 0;
+        const promise = PromiseUtils.withRetry(async () => {
+          count++;
+          return PromiseUtils.delayedResolve(100, 'too late');
+        }, [10, 10], error => error !== undefined && !(error instanceof AttemptTimeoutError), { perAttemptTimeoutMs: 20 });
+        await expect(promise).to.be.rejectedWith(AttemptTimeoutError, 'Attempt 1 timed out after 20ms');
+        expect(count).to.eq(1);
+      });
+      it('should abort the attempt signal when the outer signal is aborted', async () => {
+        const controller = new AbortController();
+        let attemptSignal: AbortSignal | undefined;
+        const promise = PromiseUtils.withRetry(async (_attempt, _previousResult, _previousError, signal) => {
+          attemptSignal = signal;
+          return PromiseUtils.delayedResolve(100, 'never', { signal });
+        }, [10], undefined, { signal: controller.signal, perAttemptTimeoutMs: 1000 });
+        setTimeout(() => controller.abort(), 10);
+        await expect(promise).to.be.rejected.and.eventually.have.property('name', 'AbortError');
+        expect(attemptSignal).not.to.eq(controller.signal);
+        expect(attemptSignal!.aborted).to.be.true;
+      });
+    });
+    it('should not call the operation at all if the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort(new Error('cancelled'));
+      let count = 0;
+      const promise = PromiseUtils.withRetry(async () => {
+        count++;
+        return 1;
+      }, [100], undefined, { signal: controller.signal });
+      await expect(promise).to.be.rejectedWith('cancelled');
+      expect(count).to.eq(0);
+    });
+  });
+  describe('parseRetryAfter(...)', () => {
+    it('should parse delay in seconds', () => {
+      expect(PromiseUtils.parseRetryAfter('120')).to.eq(120000);
+      expect(PromiseUtils.parseRetryAfter(' 1.5 ')).to.eq(1500);
+      expect(PromiseUtils.parseRetryAfter(3)).to.eq(3000);
+      expect(PromiseUtils.parseRetryAfter('0')).to.eq(0);
+    });
+    it('should parse HTTP-date', () => {
+      const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+      expect(PromiseUtils.parseRetryAfter('Wed, 21 Oct 2015 07:28:30 GMT', now)).to.eq(30000);
+      expect(PromiseUtils.parseRetryAfter('Wed, 21 Oct 2015 07:27:00 GMT', now)).to.eq(0);
+    });
+    it('should return undefined for absent or invalid values', () => {
+      // eslint-disable-next-line unicorn/no-useless-undefined
+      expect(PromiseUtils.parseRetryAfter(undefined)).to.be.undefined;
+      expect(PromiseUtils.parseRetryAfter(null)).to.be.undefined;
+      expect(PromiseUtils.parseRetryAfter('soon')).to.be.undefined;
+      expect(PromiseUtils.parseRetryAfter(-1)).to.be.undefined;
+      expect(PromiseUtils.parseRetryAfter(Number.NaN)).to.be.undefined;
+    });
+  });
+  describe('Backoff', () => {
+    it('should generate basic sequences', () => {
+      expect(take(Backoff.constant(100), 4)).to.deep.equal([100, 100, 100, 100]);
+      expect(take(Backoff.linear(100), 4)).to.deep.equal([100, 200, 300, 400]);
+      expect(take(Backoff.linear(100, 50), 4)).to.deep.equal([100, 150, 200, 250]);
+      expect(take(Backoff.exponential(100), 5)).to.deep.equal([100, 200, 400, 800, 1600]);
+      expect(take(Backoff.exponential(100, 3), 3)).to.deep.equal([100, 300, 900]);
+      expect(take(Backoff.fibonacci(10), 6)).to.deep.equal(FIBONACCI_SEQUENCE.slice(0, 6).map(n => n * 10));
+    });
+    it('should have a correct EXPONENTIAL_SEQUENCE', () => {
+      expect(EXPONENTIAL_SEQUENCE).to.deep.equal(take(Backoff.exponential(1), 26));
+    });
+    it('should apply caps and limits', () => {
+      expect(take(Backoff.exponential(100).withCap(500), 5)).to.deep.equal([100, 200, 400, 500, 500]);
+      expect([...Backoff.linear(1).withMaxAttempts(3)]).to.deep.equal([1, 2, 3]);
+      expect([...Backoff.linear(1).withMaxAttempts(0)]).to.deep.equal([]);
+      // no time elapses during iteration, so only delays longer than the limit end the sequence
+      expect([...Backoff.linear(10).withMaxElapsedTime(55)]).to.deep.equal([10, 20, 30, 40, 50]);
+    });
+    it('should take the time elapsed since the start of iteration into account', async () => {
+      let count = 0;
+      const startTime = Date.now();
+      const promise = PromiseUtils.withRetry(async () => {
+        count++;
+        throw new Error('failed');
+      }, Backoff.constant(30).withMaxElapsedTime(100));
+      await expect(promise).to.be.rejectedWith('failed');
+      expect(count).to.eq(4); // retries at about 30ms, 60ms and 90ms
+      expect(Math.abs(Date.now() - startTime - 90)).to.be.lt(ALLOWED_DEVIATION);
+    });
+    it('should count the time spent in the first attempt towards the max elapsed time', async () => {
+      const scheduler = new VirtualScheduler();
+      let count = 0;
+      const promise = PromiseUtils.withRetry(async () => {
+        count++;
+        await PromiseUtils.delayedResolve(100, undefined, { scheduler });
+        throw new Error('failed');
+      }, Backoff.constant(10).withMaxElapsedTime(150, { scheduler }), undefined, { scheduler });
+      const assertion = expect(promise).to.be.rejectedWith('failed');
+      await scheduler.runAll();
+      await assertion;
+      expect(count).to.eq(2); // the retry starts at 110ms, and there is no more after it fails at 210ms
+      expect(scheduler.now()).to.eq(210);
+    });
+    it('should restart the sequence for every iteration', () => {
+      const backoff = Backoff.exponential(1).withMaxAttempts(3);
+      expect([...backoff]).to.deep.equal([1, 2, 4]);
+      expect([...backoff]).to.deep.equal([1, 2, 4]);
+    });
+    it('should apply jitter', () => {
+      expect(withRandom(0.5, () => take(Backoff.exponential(100).withFullJitter(), 3))).to.deep.equal([50, 100, 200]);
+      expect(withRandom(0, () => take(Backoff.exponential(100).withEqualJitter(), 3))).to.deep.equal([50, 100, 200]);
+      expect(withRandom(1, () => take(Backoff.exponential(100).withEqualJitter(), 3))).to.deep.equal([100, 200, 400]);
+      expect(withRandom(1, () => take(Backoff.decorrelatedJitter(100, 1000), 4))).to.deep.equal([300, 900, 1000, 1000]);
+      expect(withRandom(0, () => take(Backoff.decorrelatedJitter(100, 1000), 3))).to.deep.equal([100, 100, 100]);
+      for (const delay of take(Backoff.decorrelatedJitter(100, 1000), 50)) {
+        expect(delay).to.be.within(100, 1000);
+      }
+    });
+    it('should support custom transformations', () => {
+      expect(take(Backoff.constant(100).map((delay, attempt) => delay * attempt), 3)).to.deep.equal([100, 200, 300]);
+    });
+    it('should be usable as the interval of runPeriodically', async () => {
+      const starts: number[] = [];
+      const startTime = Date.now();
+      const runner = PromiseUtils.runPeriodically(() => {
+        starts.push(Date.now());
+      }, Backoff.linear(30).withMaxAttempts(3));
+      await runner.done;
+      expect(starts.length).to.eq(3);
+      expect(Math.abs(starts[0] - startTime - 30)).to.be.lt(ALLOWED_DEVIATION);
+      expect(Math.abs(starts[1] - starts[0] - 60)).to.be.lt(ALLOWED_DEVIATION);
+      expect(Math.abs(starts[2] - starts[1] - 90)).to.be.lt(ALLOWED_DEVIATION);
+    });
   });
   describe('delayedResolve(...)', () => {
     it('should resolve a value after specified time', () => {
@@ -153,6 +541,14 @@ describe('PromiseUtils', () => {
                 expect(Math.abs(Date.now() - startTime - DELAY - DELAY)).lt(ALLOWED_DEVIATION);
               });
     });
+    it('should reject with AbortError and clear the timer when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const startTime = Date.now();
+      const promise = PromiseUtils.delayedResolve(1000, 'never', { signal: controller.signal });
+      setTimeout(() => controller.abort(), 20);
+      await expect(promise).to.be.rejected.and.eventually.have.property('name', 'AbortError');
+      expect(Date.now() - startTime).to.be.lt(20 + ALLOWED_DEVIATION);
+    });
   });
   describe('cancellableDelayedResolve(...)', () => {
     it('should resolve a value after specified time and expose stop()', () => {
@@ -340,6 +736,29 @@ describe('PromiseUtils', () => {
         globalThis.clearTimeout = originalClearTimeout;
       }
     });
+
+    it('should reject with the abort reason instead of the specified reason when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const { promise } = cancellableDelayedReject(1000, 'the-reason', { signal: controller.signal });
+      setTimeout(() => controller.abort(new Error('aborted-reason')), 20);
+      await expect(promise).to.be.rejectedWith('aborted-reason');
+    });
+
+    it('should reject immediately if the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const { promise } = cancellableDelayedReject(1000, 'the-reason', { signal: controller.signal });
+      await expect(promise).to.be.rejected.and.eventually.have.property('name', 'AbortError');
+    });
+
+    it('should not be affected by the signal after stop() is called', async () => {
+      const controller = new AbortController();
+      const { stop, promise } = cancellableDelayedReject(40, 'the-reason', { signal: controller.signal });
+      stop();
+      controller.abort();
+      const race = Promise.race([promise.then(() => 'resolved', () => 'rejected'), PromiseUtils.delayedResolve(60, 'still')]);
+      await expect(race).to.eventually.eq('still');
+    });
   });
   describe('withConcurrency(...)', () => {
     let OVERHEAD = 1;
@@ -405,6 +824,103 @@ describe('PromiseUtils', () => {
       expect(startedJobs).to.deep.equal([0, 1, 2]);
       expect(count).to.equal(3);
     });
+    it('should abort the signal passed to the operations still running when an error occurs', async () => {
+      const abortReasons = new Array<any>();
+      const promise = PromiseUtils.withConcurrency(3, [0, 1, 2, 3], async (job, _index, signal) => {
+        if (job === 1) {
+          await PromiseUtils.delayedResolve(5);
+          throw new Error('Failure on job 1');
+        }
+        await new Promise((_resolve, reject) => signal!.addEventListener('abort', () => {
+          abortReasons.push(signal!.reason);
+          reject(signal!.reason);
+        }));
+        return job;
+      });
+      await expect(promise).to.be.rejectedWith('Failure on job 1');
+      expect(abortReasons).to.have.length(2);
+      expect(abortReasons[0]).to.be.instanceOf(DOMException);
+      expect(abortReasons[0].name).to.equal('AbortError');
+    });
+    it('should pass a signal linked to options.signal to the operations', async () => {
+      const controller = new AbortController();
+      const signals = new Array<AbortSignal | undefined>();
+      const promise = PromiseUtils.withConcurrency(2, [0, 1], async (_job, _index, signal) => {
+        signals.push(signal);
+        return PromiseUtils.delayedResolve(50);
+      }, { signal: controller.signal });
+      controller.abort(new Error('Stop'));
+      await expect(promise).to.be.rejectedWith('Stop');
+      expect(signals).to.have.length(2);
+      expect(signals[0]).to.not.equal(controller.signal);
+      expect(signals[0]!.aborted).to.be.true;
+      expect(signals[0]!.reason.message).to.equal('Stop');
+    });
+    it('should reject only after the operations still running have settled if options.waitForInFlightJobs is true', async () => {
+      const settledJobs = new Array<number>();
+      const promise = PromiseUtils.withConcurrency(3, [0, 1, 2, 3], async (job) => {
+        await PromiseUtils.delayedResolve(job === 1 ? 5 : 40);
+        settledJobs.push(job);
+        if (job === 1) {
+          throw new Error('Failure on job 1');
+        }
+        return job;
+      }, { waitForInFlightJobs: true });
+      await expect(promise).to.be.rejectedWith('Failure on job 1');
+      expect(settledJobs).to.have.members([0, 1, 2]);
+    });
+    it('should reject with a JobsAbortedError if options.throwJobsAbortedError is true', async () => {
+      const failure = new Error('Failure on job 2');
+      const promise = PromiseUtils.withConcurrency(3, [0, 1, 2, 3, 4], async (job, _index, signal) => {
+        if (job === 0) {
+          return job;
+        }
+        if (job === 2) {
+          await PromiseUtils.delayedResolve(5);
+          throw failure;
+        }
+        await new Promise((_resolve, reject) => signal!.addEventListener('abort', () => reject(signal!.reason)));
+        return job;
+      }, { throwJobsAbortedError: true, waitForInFlightJobs: true });
+      const error: JobsAbortedError<number, number> = await promise.then(() => expect.fail('should have rejected'), error_ => error_);
+      expect(error).to.be.instanceOf(JobsAbortedError);
+      expect(error.name).to.equal('JobsAbortedError');
+      expect(error.error).to.equal(failure);
+      expect(error.message).to.equal('Aborted after a job failed (1 completed, 1 failed, 2 cancelled): Failure on job 2');
+      expect(error.completed.map(entry => entry.index)).to.deep.equal([0]);
+      expect(error.failed).to.deep.equal([{ status: 'rejected', reason: failure, index: 2, job: 2 }]);
+      expect(error.cancelled).to.deep.equal([{ index: 1, job: 1 }, { index: 3, job: 3 }]);
+    });
+    it('should report the jobs failing on their own after the abort as failed rather than cancelled', async () => {
+      const failure = new Error('Failure on job 0');
+      const laterFailure = new Error('Failure on job 1');
+      const promise = PromiseUtils.withConcurrency(3, [0, 1, 2], async (job, _index, signal) => {
+        if (job === 0) {
+          await PromiseUtils.delayedResolve(5);
+          throw failure;
+        }
+        await new Promise(resolve => signal!.addEventListener('abort', resolve));
+        throw job === 1 ? laterFailure : new DOMException('Cancelled', 'AbortError');
+      }, { throwJobsAbortedError: true, waitForInFlightJobs: true });
+      const error: JobsAbortedError<number, number> = await promise.then(() => expect.fail('should have rejected'), error_ => error_);
+      expect(error.failed).to.deep.equal([
+        { status: 'rejected', reason: failure, index: 0, job: 0 },
+        { status: 'rejected', reason: laterFailure, index: 1, job: 1 },
+      ]);
+      expect(error.cancelled).to.deep.equal([{ index: 2, job: 2 }]);
+    });
+    it('should report the jobs still running as cancelled if not waiting for them', async () => {
+      const promise = PromiseUtils.withConcurrency(2, [0, 1, 2], async (job) => {
+        if (job === 1) {
+          throw new Error('Failure on job 1');
+        }
+        return PromiseUtils.delayedResolve(20, job);
+      }, { throwJobsAbortedError: true });
+      const error: JobsAbortedError<number, number> = await promise.then(() => expect.fail('should have rejected'), error_ => error_);
+      expect(error.completed).to.have.length(0);
+      expect(error.failed.map(entry => entry.index)).to.deep.equal([1]);
+      expect(error.cancelled).to.deep.equal([{ index: 0, job: 0 }]);
+    });
   });
   describe('inParallel(...)', () => {
     let OVERHEAD = 1;
@@ -475,6 +991,324 @@ describe('PromiseUtils', () => {
       await promise;
       expect(count).to.equal(NUM);
     });
+    it('should stop pulling jobs and reject with AbortError when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const NUM = 30;
+      const DATA = Array.from({ length: NUM }, (_, i) => i);
+      const receivedSignals = new Set<AbortSignal | undefined>();
+      let count = 0;
+      const promise = PromiseUtils.inParallel(5, DATA, (d, _index, signal) => {
+        count++;
+        receivedSignals.add(signal);
+        return PromiseUtils.delayedResolve(20, d);
+      }, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 50);
+      await expect(promise).to.be.rejected.and.eventually.have.property('name', 'AbortError');
+      await PromiseUtils.delayedResolve(50);
+      expect(count).to.be.lessThan(NUM);
+      expect(count).to.be.at.most(15);
+      expect([...receivedSignals]).to.deep.equal([controller.signal]);
+    });
+    it('should respect the per-key limit and preserve result indices', async () => {
+      const jobs = ['a', 'a', 'a', 'b', 'b', 'c'];
+      const started: string[] = [];
+      const runningPerKey = new Map<string, number>();
+      let maxRunningPerKey = 0;
+      const results = await PromiseUtils.inParallel(3, jobs, async (key, index) => {
+        started.push(`${key}${index}`);
+        runningPerKey.set(key, (runningPerKey.get(key) ?? 0) + 1);
+        maxRunningPerKey = Math.max(maxRunningPerKey, runningPerKey.get(key)!);
+        await PromiseUtils.delayedResolve(10);
+        runningPerKey.set(key, runningPerKey.get(key)! - 1);
+        return `${key}${index}`;
+      }, { keyOf: key => key });
+      expect(results).to.deep.equal(['a0', 'a1', 'a2', 'b3', 'b4', 'c5']);
+      expect(maxRunningPerKey).to.eq(1);
+      expect(started.slice(0, 3)).to.deep.equal(['a0', 'b3', 'c5']);
+    });
+    it('should allow perKeyLimit jobs of the same key and bound the look-ahead buffer', async () => {
+      let pulled = 0;
+      function * generate() {
+        for (let i = 0; i < 10; i++) {
+          pulled++;
+          yield i < 9 ? 'a' : 'b';
+        }
+      }
+      const started: number[] = [];
+      const promise = PromiseUtils.inParallel(5, generate(), async (_key, index) => {
+        started.push(index);
+        await PromiseUtils.delayedResolve(10);
+      }, { keyOf: key => key, perKeyLimit: 2, maxLookAhead: 3 });
+      expect(started).to.deep.equal([0, 1]);
+      expect(pulled).to.eq(6);
+      await promise;
+      expect(started.length).to.eq(10);
+    });
+    it('should keep pulling jobs when maxLookAhead is 0', async () => {
+      const scheduler = new VirtualScheduler();
+      const started: number[] = [];
+      const operation = async (ms: number, index: number) => {
+        started.push(index);
+        await PromiseUtils.delayedResolve(ms, undefined, { scheduler });
+        return index;
+      };
+      const promise = PromiseUtils.inParallel(2, [10, 10, 10], operation, { maxLookAhead: 0 });
+      expect(started).to.deep.equal([0, 1]);
+      await scheduler.runAll();
+      await expect(promise).to.eventually.deep.equal([0, 1, 2]);
+
+      started.length = 0;
+      const keys = ['a', 'a', 'b'];
+      const promiseWithKeys = PromiseUtils.inParallel(2, [10, 10, 10], operation, { keyOf: (_ms, index) => keys[index], maxLookAhead: 0 });
+      expect(started).to.deep.equal([0]); // the job of 'b' does not overtake the one waiting for 'a'
+      await scheduler.advance(10);
+      expect(started).to.deep.equal([0, 1, 2]);
+      await scheduler.runAll();
+      await expect(promiseWithKeys).to.eventually.deep.equal([0, 1, 2]);
+    });
+    it('should reject invalid maxLookAhead', async () => {
+      await expect(PromiseUtils.inParallel(2, [1], async job => job, { maxLookAhead: -1 })).to.be.rejectedWith(RangeError);
+      await expect(PromiseUtils.inParallel(2, [1], async job => job, { maxLookAhead: 1.5 })).to.be.rejectedWith(RangeError);
+    });
+    it('should report progress and job events', async () => {
+      const scheduler = new VirtualScheduler();
+      const events: string[] = [];
+      const progresses: InParallelProgress[] = [];
+      const promise = PromiseUtils.inParallel(2, [100, 300, 200], async (ms, index) => {
+        await PromiseUtils.delayedResolve(ms, undefined, { scheduler });
+        if (index === 1) {
+          throw new Error('failed');
+        }
+        return ms;
+      }, {
+        scheduler,
+        onJobStart: ({ index, job }) => events.push(`start ${index}:${job}@${scheduler.now()}`),
+        onJobFinish: event => events.push(`${event.status} ${event.index}:${event.job} in ${event.durationMs}`),
+        onProgress: progress => progresses.push(progress),
+      });
+      await scheduler.runAll();
+      await promise;
+      expect(events).to.deep.equal([
+        'start 0:100@0',
+        'start 1:300@0',
+        'fulfilled 0:100 in 100',
+        'start 2:200@100',
+        'rejected 1:300 in 300',
+        'fulfilled 2:200 in 200',
+      ]);
+      expect(progresses.length).to.eq(6);
+      expect(progresses[2]).to.deep.equal({ started: 2, completed: 1, failed: 0, inFlight: 1, total: 3, elapsedMs: 100, throughputPerSecond: 10, etaMs: 200 });
+      expect(progresses[5]).to.deep.include({ started: 3, completed: 3, failed: 1, inFlight: 0, elapsedMs: 300, throughputPerSecond: 10, etaMs: 0 });
+    });
+    it('should not know the total or ETA when the jobs come from a generator', async () => {
+      const progresses: InParallelProgress[] = [];
+      await PromiseUtils.withConcurrency(2, (function * () {
+        yield 1;
+        yield 2;
+      })(), async job => job, { onProgress: progress => progresses.push(progress) });
+      expect(progresses[progresses.length - 1]).to.deep.include({ started: 2, completed: 2, total: undefined, etaMs: undefined });
+    });
+    it('should retry failed jobs while occupying their slots', async () => {
+      const scheduler = new VirtualScheduler();
+      const attempts: string[] = [];
+      const promise = PromiseUtils.inParallel(1, [0, 1, 2], async (job) => {
+        attempts.push(`${job}@${scheduler.now()}`);
+        await PromiseUtils.delayedResolve(20, undefined, { scheduler });
+        if (job === 2 || attempts.filter(attempt => attempt.startsWith(`${job}@`)).length === 1 && job === 0) {
+          throw new Error(`Failure on job ${job}`);
+        }
+        return job;
+      }, { scheduler, retry: { backoff: [10, 10] } });
+      await scheduler.runAll();
+      const results = await promise;
+      expect(attempts).to.deep.equal(['0@0', '0@30', '1@50', '2@70', '2@100', '2@130']);
+      expect(results.slice(0, 2)).to.deep.equal([0, 1]);
+      expect((results[2] as any).message).to.eq('Failure on job 2');
+    });
+    it('should free the slot of a job waiting for its backoff if retry.requeue is true', async () => {
+      const scheduler = new VirtualScheduler();
+      const attempts: string[] = [];
+      const retries: number[] = [];
+      const promise = PromiseUtils.withConcurrency(1, [0, 1, 2], async (job) => {
+        attempts.push(`${job}@${scheduler.now()}`);
+        await PromiseUtils.delayedResolve(20, undefined, { scheduler });
+        if (job === 0 && attempts.length === 1) {
+          throw new Error('Failure on job 0');
+        }
+        return job;
+      }, { scheduler, retry: { backoff: [10], requeue: true, onRetry: ({ attempt }) => retries.push(attempt) } });
+      await scheduler.runAll();
+      expect(await promise).to.deep.equal([0, 1, 2]);
+      expect(attempts).to.deep.equal(['0@0', '1@20', '0@40', '2@60']);
+      expect(retries).to.deep.equal([1]);
+    });
+    it('should not retry a job any more once another job has failed in withConcurrency', async () => {
+      const scheduler = new VirtualScheduler();
+      const attempts: string[] = [];
+      const promise = PromiseUtils.withConcurrency(2, [0, 1], async (job) => {
+        attempts.push(`${job}@${scheduler.now()}`);
+        await PromiseUtils.delayedResolve(job === 0 ? 10 : 30, undefined, { scheduler });
+        throw new Error(`Failure on job ${job}`);
+      }, { scheduler, waitForInFlightJobs: true, retry: { backoff: [100], shouldRetry: (error) => error.message === 'Failure on job 0', requeue: true } });
+      const assertion = expect(promise).to.be.rejectedWith('Failure on job 1');
+      await scheduler.runAll();
+      await assertion;
+      expect(attempts).to.deep.equal(['0@0', '1@0']);
+      expect(scheduler.now()).to.eq(30);
+    });
+  });
+  describe('inParallelSettled(...)', () => {
+    it('should return discriminated outcomes with the job index and data', async () => {
+      const { results, fulfilledCount, rejectedCount } = await PromiseUtils.inParallelSettled(2, ['a', 'b', 'c', 'd'], async (job, index) => {
+        await PromiseUtils.delayedResolve(10 * (4 - index));
+        if (job === 'b') {
+          throw job; // a thrown value that looks like a legitimate result
+        }
+        return job.toUpperCase();
+      });
+      expect(results).to.deep.equal([
+        { status: 'fulfilled', value: 'A', index: 0, job: 'a' },
+        { status: 'rejected', reason: 'b', index: 1, job: 'b' },
+        { status: 'fulfilled', value: 'C', index: 2, job: 'c' },
+        { status: 'fulfilled', value: 'D', index: 3, job: 'd' },
+      ]);
+      expect(fulfilledCount).to.eq(3);
+      expect(rejectedCount).to.eq(1);
+    });
+    it('should report rejected jobs to the hooks', async () => {
+      const finished: string[] = [];
+      let lastProgress: InParallelProgress | undefined;
+      await PromiseUtils.inParallelSettled(2, [1, 2, 3], async job => {
+        if (job === 2) {
+          throw new Error('failed');
+        }
+        return job;
+      }, { onJobFinish: event => finished.push(`${event.index}:${event.status}`), onProgress: progress => { lastProgress = progress; } });
+      expect(finished.sort()).to.deep.equal(['0:fulfilled', '1:rejected', '2:fulfilled']);
+      expect(lastProgress).to.deep.include({ completed: 3, failed: 1 });
+    });
+    it('should capture errors thrown synchronously by the operation', async () => {
+      const { results, rejectedCount } = await PromiseUtils.inParallelSettled(2, [1], () => {
+        throw new Error('sync');
+      });
+      expect(rejectedCount).to.eq(1);
+      expect(results[0].status === 'rejected' && results[0].reason.message).to.eq('sync');
+    });
+    it('should reject when the signal is aborted', async () => {
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 20);
+      await expect(PromiseUtils.inParallelSettled(1, [100, 100], (ms, _index, signal) => PromiseUtils.delayedResolve(ms, ms, { signal }), { signal: controller.signal }))
+        .to.be.rejectedWith(DOMException, /aborted/);
+    });
+  });
+  describe('inParallelStream(...)', () => {
+    it('should yield results and errors in the input order by default', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const results = await collect(PromiseUtils.inParallelStream<number, number, Error>(3, [50, 10, 30, 20, 40], async (ms, index) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await PromiseUtils.delayedResolve(ms);
+        running--;
+        if (index === 2) {
+          throw new Error(`failed ${ms}`);
+        }
+        return ms;
+      }));
+      expect(results.map(r => r instanceof Error ? r.message : r)).to.deep.equal([50, 10, 'failed 30', 20, 40]);
+      expect(maxRunning).to.eq(3);
+    });
+
+    it('should yield results in the completion order from an async iterable', async () => {
+      async function * generate() {
+        for (const ms of [50, 10, 30]) {
+          await PromiseUtils.delayedResolve(1);
+          yield ms;
+        }
+      }
+      const results = await collect(PromiseUtils.inParallelStream(3, generate(), async ms => PromiseUtils.delayedResolve(ms, ms), { order: 'completion' }));
+      expect(results).to.deep.equal([10, 30, 50]);
+    });
+
+    it('should not pull more than parallelism jobs ahead of the consumer', async () => {
+      let pulled = 0;
+      let consumed = 0;
+      let maxAhead = 0;
+      function * generate() {
+        for (let i = 0; i < 10; i++) {
+          pulled++;
+          maxAhead = Math.max(maxAhead, pulled - consumed);
+          yield i;
+        }
+      }
+      for await (const result of PromiseUtils.inParallelStream(3, generate(), async i => i)) {
+        expect(result).to.eq(consumed);
+        await PromiseUtils.delayedResolve(5);
+        consumed++;
+      }
+      expect(consumed).to.eq(10);
+      expect(maxAhead).to.be.at.most(3);
+    });
+
+    it('should stop pulling and abort running operations when the consumer breaks', async () => {
+      let pulled = 0;
+      let closed = false;
+      async function * generate() {
+        try {
+          for (let i = 0; ; i++) {
+            pulled++;
+            yield i;
+          }
+        } finally {
+          closed = true;
+        }
+      }
+      const aborted: number[] = [];
+      for await (const result of PromiseUtils.inParallelStream(2, generate(), async (i, _index, signal) => {
+        return PromiseUtils.delayedResolve(i === 0 ? 10 : 100, i, { signal }).catch(error => {
+          aborted.push(i);
+          throw error;
+        });
+      })) {
+        expect(result).to.eq(0);
+        break;
+      }
+      await PromiseUtils.delayedResolve(10);
+      expect(closed).to.be.true;
+      expect(pulled).to.be.at.most(3);
+      expect(aborted).to.deep.equal([1]);
+    });
+
+    it('should throw the first error and stop pulling when abortOnError is true', async () => {
+      const started: number[] = [];
+      const results: number[] = [];
+      await expect((async () => {
+        for await (const result of PromiseUtils.inParallelStream(2, [1, 2, 3, 4, 5, 6], async i => {
+          started.push(i);
+          await PromiseUtils.delayedResolve(10 * i);
+          if (i === 2) {
+            throw new Error('failed 2');
+          }
+          return i;
+        }, { abortOnError: true })) {
+          results.push(result);
+        }
+      })()).to.be.rejectedWith('failed 2');
+      expect(results).to.deep.equal([1]);
+      expect(started).to.deep.equal([1, 2, 3]);
+    });
+
+    it('should throw when the signal is aborted', async () => {
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 30);
+      const results: number[] = [];
+      await expect((async () => {
+        for await (const result of PromiseUtils.inParallelStream(2, [10, 200, 200], async (ms, _index, signal) => PromiseUtils.delayedResolve(ms, ms, { signal }), { signal: controller.signal })) {
+          results.push(result);
+        }
+      })()).to.be.rejectedWith(DOMException, /aborted/);
+      expect(results).to.deep.equal([10]);
+    });
   });
   describe('timeoutResolve(...)', () => {
     it('should return original fulfilled result when not timed-out', async () => {
@@ -568,6 +1402,18 @@ describe('PromiseUtils', () => {
         (PromiseUtils as any).cancellableDelayedResolve = originalCDR;
       }
     });
+
+    it('should reject with AbortError and pass the signal to the operation function when the signal is aborted', async () => {
+      const controller = new AbortController();
+      let receivedSignal: AbortSignal | undefined;
+      const p = PromiseUtils.timeoutResolve(signal => {
+        receivedSignal = signal;
+        return PromiseUtils.delayedResolve(80, 1);
+      }, 50, 2, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 10);
+      await expect(p).to.be.rejected.and.eventually.have.property('name', 'AbortError');
+      expect(receivedSignal).to.eq(controller.signal);
+    });
   });
   describe('timeoutReject(...)', () => {
     it('should return original fulfilled result when not timed-out', async () => {
@@ -661,6 +1507,91 @@ describe('PromiseUtils', () => {
       }
     });
   });
+  describe('hedge(...)', () => {
+    it('should not start any hedge if the first attempt succeeds in time', async () => {
+      const attempts: number[] = [];
+      const outcome = await PromiseUtils.hedge(async attempt => {
+        attempts.push(attempt);
+        return PromiseUtils.delayedResolve(10, 'fast');
+      }, { delays: 50 });
+      expect(outcome).to.deep.equal({ result: 'fast', attempt: 1 });
+      await PromiseUtils.delayedResolve(60);
+      expect(attempts).to.deep.equal([1]);
+    });
+
+    it('should let a hedge win and abort the slow attempt', async () => {
+      const signals: AbortSignal[] = [];
+      const startTime = Date.now();
+      const outcome = await PromiseUtils.hedge((attempt, signal) => {
+        signals.push(signal);
+        return PromiseUtils.delayedResolve(attempt === 1 ? 200 : 20, `attempt ${attempt}`, { signal });
+      }, { delays: [30, 30] });
+      expect(Date.now() - startTime).to.be.closeTo(50, ALLOWED_DEVIATION);
+      expect(outcome).to.deep.equal({ result: 'attempt 2', attempt: 2 });
+      expect(signals.length).to.equal(2);
+      expect(signals[0].aborted).to.equal(true);
+      expect(signals[0].reason).to.have.property('name', 'AbortError');
+      expect(signals[1].aborted).to.equal(false);
+      await PromiseUtils.delayedResolve(30);
+      expect(signals.length).to.equal(2); // the pending hedge has been cancelled
+    });
+
+    it('should start the next hedge immediately when an attempt fails', async () => {
+      const startTimes: number[] = [];
+      const startTime = Date.now();
+      const outcome = await PromiseUtils.hedge(async attempt => {
+        startTimes.push(Date.now() - startTime);
+        if (attempt === 1) {
+          throw new Error('failed');
+        }
+        return attempt;
+      }, { delays: 100 });
+      expect(outcome).to.deep.equal({ result: 2, attempt: 2 });
+      expect(startTimes[1]).to.be.lessThan(ALLOWED_DEVIATION);
+    });
+
+    it('should reject with AggregateError when all attempts fail', async () => {
+      const error = await PromiseUtils.hedge(async attempt => {
+        await PromiseUtils.delayedResolve(attempt * 10);
+        throw new Error(`failed ${attempt}`);
+      }, { delays: Backoff.constant(5), maxHedges: 3 }).catch(error_ => error_);
+      expect(error).to.be.instanceOf(AggregateError);
+      expect((error as AggregateError).errors.map(e => e.message)).to.deep.equal(['failed 1', 'failed 2', 'failed 3', 'failed 4']);
+    });
+
+    it('should respect maxHedges', async () => {
+      const attempts: number[] = [];
+      await expect(PromiseUtils.hedge(async attempt => {
+        attempts.push(attempt);
+        throw new Error('failed');
+      }, { delays: 10, maxHedges: 2 })).to.be.rejectedWith(AggregateError);
+      expect(attempts).to.deep.equal([1, 2, 3]);
+    });
+
+    it('should abort all attempts when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const signals: AbortSignal[] = [];
+      setTimeout(() => controller.abort(), 30);
+      const startTime = Date.now();
+      await expect(PromiseUtils.hedge((_attempt, signal) => {
+        signals.push(signal);
+        return PromiseUtils.delayedResolve(200, 1, { signal });
+      }, { delays: 20, signal: controller.signal })).to.be.rejectedWith(DOMException, /aborted/);
+      expect(Date.now() - startTime).to.be.closeTo(30, ALLOWED_DEVIATION);
+      expect(signals.length).to.equal(2);
+      expect(signals.every(signal => signal.aborted)).to.equal(true);
+    });
+
+    it('should reject immediately if the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      let called = false;
+      await expect(PromiseUtils.hedge(async () => {
+        called = true;
+      }, { delays: 10, signal: controller.signal })).to.be.rejectedWith(DOMException);
+      expect(called).to.equal(false);
+    });
+  });
   describe('promiseState(...)', () => {
     it('should get correct state', async () => {
       const p1 = PromiseUtils.delayedResolve(50, 1);
@@ -811,6 +1742,19 @@ describe('PromiseUtils', () => {
         expect(Math.abs(secondDelta - (INTERVAL + OP_DURATION))).to.be.lt(ALLOWED_DEVIATION);
       }
     });
+
+    it('should stop and reject done with AbortError when the signal is aborted', async () => {
+      const controller = new AbortController();
+      let count = 0;
+      const runner = PromiseUtils.runPeriodically(() => {
+        count++;
+      }, 30, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 80);
+      await expect(runner.done).to.be.rejected.and.eventually.have.property('name', 'AbortError');
+      expect(count).to.eq(2);
+      await PromiseUtils.delayedResolve(50);
+      expect(count).to.eq(2);
+    });
   });
   describe('synchronized(...)', () => {
     it('should work for a simple three "threads" scenario', async () => {
@@ -835,7 +1779,7 @@ describe('PromiseUtils', () => {
         expect(prevSettledState).to.eq(PromiseState.Rejected);
         expect(prevResult).to.eq('p2');
         return PromiseUtils.delayedReject(50, 'p3');
-      });
+      }, { previousResultTtlMs: 1000 });
       await expect(p3).to.be.rejectedWith('p3');
       const p4 = PromiseUtils.synchronized(lock, (prevState, prevSettledState, prevResult) => {
         expect(prevState).to.eq(PromiseState.Rejected);
@@ -846,5 +1790,978 @@ describe('PromiseUtils', () => {
       await expect(p4).to.eventually.eq('p4');
       expect(Math.abs(Date.now() - startTime - 170 - 12)).to.be.lt(ALLOWED_DEVIATION);  // 3ms overhead per operation
     });
+    it('should forget a lock as soon as its last operation has settled', async () => {
+      const lock = {};
+      await PromiseUtils.synchronized(lock, async () => 'p1');
+      expect(PromiseUtils.listSynchronizationLocks().some(info => info.lock === lock)).to.be.false;
+      await PromiseUtils.synchronized(lock, async (prevState, prevSettledState, prevResult) => {
+        expect(prevState).to.be.undefined;
+        expect(prevSettledState).to.be.undefined;
+        expect(prevResult).to.be.undefined;
+      });
+    });
+    it('should retain the previous result for previousResultTtlMs', async () => {
+      const scheduler = new VirtualScheduler();
+      const lock = {};
+      const previousResults: any[] = [];
+      const operation = async (_prevState: any, _prevSettledState: any, prevResult: any) => {
+        previousResults.push(prevResult);
+        return 'p' + previousResults.length;
+      };
+      await PromiseUtils.synchronized(lock, operation, { previousResultTtlMs: 100, scheduler });
+      await scheduler.advance(99);
+      await PromiseUtils.synchronized(lock, operation, { previousResultTtlMs: 100, scheduler });
+      await scheduler.advance(100);
+      expect(scheduler.pendingTimers).to.eq(0);
+      await PromiseUtils.synchronized(lock, operation);
+      expect(previousResults).to.deep.equal([undefined, 'p1', undefined]);
+    });
+    it('should not keep the process running for retaining the previous result', async () => {
+      await PromiseUtils.delayedResolve(0); // let the timers of mocha settle down
+      const timers = countActiveTimers();
+      await PromiseUtils.synchronized({}, async () => 'retained', { previousResultTtlMs: 60000 });
+      expect(countActiveTimers()).to.eq(timers);
+    });
+    it('should list the locks in use with queue depth and running time of the holder', async () => {
+      const scheduler = new VirtualScheduler();
+      const lock = 'lock' + Date.now();
+      const operation = () => PromiseUtils.delayedResolve(100, undefined, { scheduler });
+      const p1 = PromiseUtils.synchronized(lock, operation, { scheduler });
+      await scheduler.advance(30);
+      const p2 = PromiseUtils.synchronized(lock, operation, { scheduler });
+      const p3 = PromiseUtils.synchronized(lock, operation, { scheduler });
+      await scheduler.flushMicrotasks();
+      expect(PromiseUtils.listSynchronizationLocks().filter(info => info.lock === lock)).to.deep.equal([{ lock, queueDepth: 2, holderRunningMs: 30 }]);
+      await scheduler.advance(80);
+      expect(PromiseUtils.listSynchronizationLocks().filter(info => info.lock === lock)).to.deep.equal([{ lock, queueDepth: 1, holderRunningMs: 10 }]);
+      await scheduler.runAll();
+      await Promise.all([p1, p2, p3]);
+      expect(scheduler.now()).to.eq(300);
+      expect(PromiseUtils.listSynchronizationLocks().filter(info => info.lock === lock)).to.deep.equal([]);
+    });
+    it('should hold a lease from the default in-memory lock backend while the operation is running', async () => {
+      const scheduler = new VirtualScheduler();
+      const lock = {};
+      const events: string[] = [];
+      const operation = (name: string) => async () => {
+        events.push(`${name} start@${scheduler.now()}`);
+        await PromiseUtils.delayedResolve(100, undefined, { scheduler });
+        return name;
+      };
+      const p1 = PromiseUtils.synchronized(lock, operation('p1'), { leaseTtlMs: 90, scheduler });
+      const p2 = PromiseUtils.synchronized(lock, operation('p2'), { leaseTtlMs: 90, scheduler });
+      await PromiseUtils.delayedResolve(0);
+      expect(scheduler.pendingTimers).to.eq(2); // the delay of the operation, and the renewal of the lease
+      await scheduler.runAll();
+      await expect(Promise.all([p1, p2])).to.eventually.deep.equal(['p1', 'p2']);
+      expect(events).to.deep.equal(['p1 start@0', 'p2 start@100']);
+      expect(scheduler.pendingTimers).to.eq(0);
+    });
+    it('should hold a lease from the lock backend and renew it while the operation is running', async () => {
+      const scheduler = new VirtualScheduler();
+      const backend = new InMemoryLockBackend({ scheduler });
+      const lock = 'lock' + Date.now();
+      const otherToken = await backend.acquire(lock, 50);
+      const events: string[] = [];
+      const promise = PromiseUtils.synchronized(lock, async () => {
+        events.push(`start@${scheduler.now()}`);
+        await PromiseUtils.delayedResolve(100, undefined, { scheduler });
+        return 'done';
+      }, { backend, leaseTtlMs: 30, renewIntervalMs: 10, scheduler });
+      await scheduler.advance(20);
+      await backend.release(lock, otherToken); // another process releases the lock
+      await scheduler.advance(60);
+      let acquiredByOthersAt: number | undefined;
+      const acquiring = backend.acquire(lock, 30).then(() => {
+        acquiredByOthersAt = scheduler.now();
+      });
+      await scheduler.runAll();
+      expect(await promise).to.eq('done');
+      await acquiring;
+      expect(events).to.deep.equal(['start@20']);
+      expect(acquiredByOthersAt).to.eq(120);
+    });
+    it('should report a lost lease', async () => {
+      const scheduler = new VirtualScheduler();
+      const backend = new InMemoryLockBackend({ scheduler });
+      const lost: Array<{ lock: string }> = [];
+      const promise = PromiseUtils.synchronized(42, () => PromiseUtils.delayedResolve(100, 'done', { scheduler }), {
+        backend,
+        leaseTtlMs: 10,
+        renewIntervalMs: 20,
+        scheduler,
+        onLeaseLost: event => lost.push(event),
+      });
+      await scheduler.runAll();
+      expect(await promise).to.eq('done');
+      expect(lost).to.deep.equal([{ lock: '42' }]);
+    });
+    it('should give up waiting for the lease from the lock backend on timeout or abort', async () => {
+      const scheduler = new VirtualScheduler();
+      const backend = new InMemoryLockBackend({ scheduler });
+      const lock = 'lock' + Date.now();
+      const otherToken = await backend.acquire(lock, 1000);
+      let runs = 0;
+      const operation = async () => {
+        runs++;
+        return 'done';
+      };
+      const timedOut = PromiseUtils.synchronized(lock, operation, { backend, acquireTimeoutMs: 50, scheduler });
+      const timedOutAssertion = expect(timedOut).to.be.rejectedWith(LockTimeoutError, 'Could not acquire the backend lock within 50ms');
+      await scheduler.advance(50);
+      await timedOutAssertion;
+
+      const controller = new AbortController();
+      const aborted = PromiseUtils.synchronized(lock, operation, { backend, signal: controller.signal, scheduler });
+      await scheduler.advance(10);
+      controller.abort();
+      await expect(aborted).to.be.rejectedWith(DOMException, /aborted/);
+      expect(runs).to.eq(0);
+
+      await backend.release(lock, otherToken);
+      await expect(PromiseUtils.synchronized(lock, operation, { backend, acquireTimeoutMs: 50, signal: new AbortController().signal, scheduler })).to.eventually.eq('done');
+      expect(runs).to.eq(1);
+      expect(scheduler.pendingTimers).to.eq(0);
+    });
+    it('should reject a lock that is neither a string nor a number when using a lock backend', async () => {
+      await expect(PromiseUtils.synchronized({}, async () => 'done', { backend: new InMemoryLockBackend() })).to.be.rejectedWith(TypeError);
+    });
+  });
+  describe('singleFlight(...)', () => {
+    it('should share one execution among concurrent callers', async () => {
+      let calls = 0;
+      const load = async () => {
+        const call = ++calls;
+        await PromiseUtils.delayedResolve(10);
+        return `value${call}`;
+      };
+      const results = await Promise.all([PromiseUtils.singleFlight('key', load), PromiseUtils.singleFlight('key', load), PromiseUtils.singleFlight('other', load)]);
+      expect(results).to.deep.equal(['value1', 'value1', 'value2']);
+      expect(await PromiseUtils.singleFlight('key', load)).to.eq('value3');
+    });
+    it('should share the rejection among concurrent callers but not afterwards', async () => {
+      let calls = 0;
+      const load = () => {
+        calls++;
+        return PromiseUtils.delayedReject(10, new Error(`failure${calls}`));
+      };
+      const p1 = PromiseUtils.singleFlight('failing', load, { shareResultForMs: 1000 });
+      const p2 = PromiseUtils.singleFlight('failing', load, { shareResultForMs: 1000 });
+      await expect(p1).to.be.rejectedWith('failure1');
+      await expect(p2).to.be.rejectedWith('failure1');
+      await expect(PromiseUtils.singleFlight('failing', load)).to.be.rejectedWith('failure2');
+    });
+    it('should share the fulfilled result for shareResultForMs after settlement', async () => {
+      const scheduler = new VirtualScheduler();
+      let calls = 0;
+      const load = async () => ++calls;
+      expect(await PromiseUtils.singleFlight('shared', load, { shareResultForMs: 100, scheduler })).to.eq(1);
+      await scheduler.advance(99);
+      expect(await PromiseUtils.singleFlight('shared', load)).to.eq(1);
+      await scheduler.advance(1);
+      expect(await PromiseUtils.singleFlight('shared', load)).to.eq(2);
+    });
+    it('should share the fulfilled result for the longest shareResultForMs of the callers', async () => {
+      const scheduler = new VirtualScheduler();
+      let calls = 0;
+      const load = () => PromiseUtils.delayedResolve(10, ++calls, { scheduler });
+      const p1 = PromiseUtils.singleFlight('longest', load, { scheduler });
+      const p2 = PromiseUtils.singleFlight('longest', load, { shareResultForMs: 100 });
+      const p3 = PromiseUtils.singleFlight('longest', load, { shareResultForMs: 50 });
+      await scheduler.advance(10);
+      expect(await Promise.all([p1, p2, p3])).to.deep.equal([1, 1, 1]);
+      await scheduler.advance(99);
+      expect(await PromiseUtils.singleFlight('longest', load, { shareResultForMs: 1000 })).to.eq(1);
+      await scheduler.advance(1);
+      const p4 = PromiseUtils.singleFlight('longest', load, { scheduler });
+      await scheduler.advance(10);
+      expect(await p4).to.eq(2);
+    });
+    it('should not keep the process running for sharing the result', async () => {
+      await PromiseUtils.delayedResolve(0); // let the timers of mocha settle down
+      const timers = countActiveTimers();
+      await PromiseUtils.singleFlight(`shared${Date.now()}`, async () => 'shared', { shareResultForMs: 60000 });
+      expect(countActiveTimers()).to.eq(timers);
+    });
+    it('should abort the shared operation only when all the callers have aborted', async () => {
+      const controller1 = new AbortController();
+      const controller2 = new AbortController();
+      let sharedSignal: AbortSignal | undefined;
+      const load = (signal: AbortSignal) => {
+        sharedSignal = signal;
+        return PromiseUtils.delayedResolve(50, 'loaded', { signal });
+      };
+      const p1 = PromiseUtils.singleFlight('abortable', load, { signal: controller1.signal });
+      const p2 = PromiseUtils.singleFlight('abortable', load, { signal: controller2.signal });
+      controller1.abort();
+      await expect(p1).to.be.rejectedWith(DOMException, /aborted/);
+      expect(sharedSignal!.aborted).to.be.false;
+      controller2.abort(new Error('Gone'));
+      await expect(p2).to.be.rejectedWith('Gone');
+      expect(sharedSignal!.aborted).to.be.true;
+      expect(await PromiseUtils.singleFlight('abortable', async () => 'fresh')).to.eq('fresh');
+    });
+    it('should keep the shared operation running for callers without a signal', async () => {
+      const controller = new AbortController();
+      const load = () => PromiseUtils.delayedResolve(20, 'loaded');
+      const p1 = PromiseUtils.singleFlight('mixed', load, { signal: controller.signal });
+      const p2 = PromiseUtils.singleFlight('mixed', load);
+      controller.abort();
+      await expect(p1).to.be.rejectedWith(DOMException, /aborted/);
+      expect(await p2).to.eq('loaded');
+    });
+  });
+  describe('CircuitBreaker', () => {
+    it('should open after consecutive failures and fail fast', async () => {
+      const changes: string[] = [];
+      const breaker = new CircuitBreaker({ failureThreshold: 3, coolDownMs: 1000, onStateChange: ({ from, to }) => changes.push(`${from}->${to}`) });
+      await expect(breaker.execute(failDown)).to.be.rejectedWith('down');
+      await expect(breaker.execute(succeedUp)).to.eventually.eq('up');
+      for (let i = 0; i < 3; i++) {
+        expect(breaker.state).to.eq(CircuitBreakerState.Closed);
+        await expect(breaker.execute(failDown)).to.be.rejectedWith('down');
+      }
+      expect(breaker.state).to.eq(CircuitBreakerState.Open);
+      let called = false;
+      const error = await breaker.execute(async () => { called = true; }).catch(error_ => error_);
+      expect(called).to.be.false;
+      expect(error).to.be.instanceOf(CircuitOpenError);
+      expect(error.state).to.eq(CircuitBreakerState.Open);
+      expect(error.retryAfterMs).to.be.within(900, 1000);
+      expect(changes).to.deep.equal(['Closed->Open']);
+    });
+    it('should allow limited probes after cool-down and close when they succeed', async () => {
+      const changes: string[] = [];
+      const breaker = new CircuitBreaker({ failureThreshold: 1, coolDownMs: 30, halfOpenMaxConcurrent: 1, onStateChange: ({ from, to }) => changes.push(`${from}->${to}`) });
+      await expect(breaker.execute(failDown)).to.be.rejectedWith('down');
+      await PromiseUtils.delayedResolve(40);
+      expect(breaker.state).to.eq(CircuitBreakerState.HalfOpen);
+      const probe = breaker.execute(() => PromiseUtils.delayedResolve(20, 'probe'));
+      await expect(breaker.execute(succeedUp)).to.be.rejectedWith(CircuitOpenError).and.eventually.include({ state: CircuitBreakerState.HalfOpen, retryAfterMs: 0 });
+      await expect(probe).to.eventually.eq('probe');
+      expect(breaker.state).to.eq(CircuitBreakerState.Closed);
+      expect(changes).to.deep.equal(['Closed->Open', 'Open->HalfOpen', 'HalfOpen->Closed']);
+    });
+    it('should open again when a probe fails', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, coolDownMs: 30 });
+      await expect(breaker.execute(failDown)).to.be.rejectedWith('down');
+      await PromiseUtils.delayedResolve(40);
+      await expect(breaker.execute(failDown)).to.be.rejectedWith('down');
+      expect(breaker.state).to.eq(CircuitBreakerState.Open);
+    });
+    it('should require successThreshold successful probes to close', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, coolDownMs: 10, successThreshold: 2 });
+      await expect(breaker.execute(failDown)).to.be.rejectedWith('down');
+      await PromiseUtils.delayedResolve(20);
+      await breaker.execute(succeedUp);
+      expect(breaker.state).to.eq(CircuitBreakerState.HalfOpen);
+      await breaker.execute(succeedUp);
+      expect(breaker.state).to.eq(CircuitBreakerState.Closed);
+    });
+    it('should open when the failure rate within the rolling window reaches the threshold', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 100, failureRateThreshold: 0.5, minimumRequests: 4, rollingWindowMs: 1000 });
+      await breaker.execute(succeedUp);
+      await expect(breaker.execute(failDown)).to.be.rejected;
+      await breaker.execute(succeedUp);
+      expect(breaker.state).to.eq(CircuitBreakerState.Closed);
+      await expect(breaker.execute(failDown)).to.be.rejected;
+      expect(breaker.state).to.eq(CircuitBreakerState.Open);
+    });
+    it('should only take failures within the rolling window into account', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 100, failureRateThreshold: 0.5, minimumRequests: 2, rollingWindowMs: 30 });
+      await expect(breaker.execute(failDown)).to.be.rejected;
+      await PromiseUtils.delayedResolve(40);
+      await breaker.execute(succeedUp);
+      expect(breaker.state).to.eq(CircuitBreakerState.Closed);
+    });
+    it('should not count errors excluded by isFailure', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, isFailure: error => error.message !== 'not found' });
+      await expect(breaker.execute(() => Promise.reject(new Error('not found')))).to.be.rejectedWith('not found');
+      expect(breaker.state).to.eq(CircuitBreakerState.Closed);
+    });
+    it('should ignore outcomes of operations started before a state change', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1 });
+      const slow = breaker.execute(() => PromiseUtils.delayedReject(20, new Error('slow')));
+      breaker.trip();
+      breaker.reset();
+      await expect(slow).to.be.rejectedWith('slow');
+      expect(breaker.state).to.eq(CircuitBreakerState.Closed);
+    });
+    it('should make withRetry fail fast when the circuit is open', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 2, coolDownMs: 1000 });
+      let count = 0;
+      let reason: string | undefined;
+      const startTime = Date.now();
+      const promise = PromiseUtils.withRetry(async () => {
+        count++;
+        throw new Error('down');
+      }, [10, 10, 10, 1000], undefined, { circuitBreaker: breaker, onGiveUp: info => { reason = info.reason; } });
+      await expect(promise).to.be.rejectedWith(CircuitOpenError);
+      expect(count).to.eq(2);
+      expect(reason).to.eq('circuitOpen');
+      expect(Date.now() - startTime).to.be.lt(100);
+    });
+  });
+  describe('RetryBudget', () => {
+    it('should allow retries only from deposits when there is no reserve', () => {
+      const budget = new RetryBudget({ retryRatio: 0.5, minRetriesPerSecond: 0 });
+      expect(budget.tryWithdraw()).to.be.false;
+      budget.deposit();
+      expect(budget.balance).to.eq(0);
+      budget.deposit();
+      expect(budget.balance).to.eq(1);
+      expect(budget.tryWithdraw()).to.be.true;
+      expect(budget.tryWithdraw()).to.be.false;
+    });
+    it('should cap the deposits', () => {
+      const budget = new RetryBudget({ retryRatio: 1, minRetriesPerSecond: 0, maxBalance: 2 });
+      for (let i = 0; i < 10; i++) {
+        budget.deposit();
+      }
+      expect(budget.balance).to.eq(2);
+    });
+    it('should refill the reserve at minRetriesPerSecond', async () => {
+      const budget = new RetryBudget({ minRetriesPerSecond: 20 });
+      expect(budget.balance).to.eq(20);
+      for (let i = 0; i < 20; i++) {
+        expect(budget.tryWithdraw()).to.be.true;
+      }
+      expect(budget.tryWithdraw()).to.be.false;
+      await PromiseUtils.delayedResolve(120);
+      expect(budget.balance).to.be.within(2, 3);
+      expect(budget.tryWithdraw()).to.be.true;
+    });
+    it('should cap retries of withRetry calls sharing the budget', async () => {
+      const budget = new RetryBudget({ retryRatio: 0.5, minRetriesPerSecond: 0 });
+      for (let i = 0; i < 4; i++) {
+        await PromiseUtils.withRetry(async () => 'ok', [10], undefined, { retryBudget: budget });
+      }
+      expect(budget.balance).to.eq(2);
+      let count = 0;
+      const reasons: string[] = [];
+      const calls = Array.from({ length: 3 }, () => PromiseUtils.withRetry(async () => {
+        count++;
+        throw new Error('down');
+      }, [10, 10], undefined, { retryBudget: budget, onGiveUp: ({ reason }) => reasons.push(reason) }).catch(error => error));
+      await Promise.all(calls);
+      expect(count).to.eq(3 + 2);
+      expect(reasons.filter(r => r === 'retryBudgetExhausted').length).to.eq(3);
+      expect(budget.balance).to.eq(0);
+    });
+  });
+  describe('VirtualScheduler', () => {
+    it('should fire timers in order only when time is advanced', async () => {
+      const scheduler = new VirtualScheduler(1000);
+      const fired: string[] = [];
+      scheduler.setTimeout(() => fired.push('b'), 20);
+      scheduler.setTimeout(() => fired.push('a'), 10);
+      scheduler.setTimeout(() => fired.push('c'), 20);
+      const cleared = scheduler.setTimeout(() => fired.push('x'), 15);
+      scheduler.clearTimeout(cleared);
+      expect(scheduler.pendingTimers).to.eq(3);
+      await scheduler.advance(9);
+      expect(fired).to.deep.equal([]);
+      expect(scheduler.now()).to.eq(1009);
+      await scheduler.advance(11);
+      expect(fired).to.deep.equal(['a', 'b', 'c']);
+      expect(scheduler.now()).to.eq(1020);
+      expect(scheduler.pendingTimers).to.eq(0);
+    });
+    it('should let Promise callbacks run between timers', async () => {
+      const scheduler = new VirtualScheduler();
+      const times: number[] = [];
+      const chain = (async () => {
+        for (let i = 0; i < 3; i++) {
+          await PromiseUtils.delayedResolve(100, undefined, { scheduler });
+          times.push(scheduler.now());
+        }
+      })();
+      await scheduler.advance(250);
+      expect(times).to.deep.equal([100, 200]);
+      await scheduler.runAll();
+      expect(times).to.deep.equal([100, 200, 300]);
+      await chain;
+    });
+    it('should drive withRetry without really waiting', async () => {
+      const scheduler = new VirtualScheduler();
+      const attempts: number[] = [];
+      const startTime = Date.now();
+      const promise = PromiseUtils.withRetry(async () => {
+        attempts.push(scheduler.now());
+        throw new Error('failed');
+      }, [1000, 60000], undefined, { scheduler, throwRetryExhaustedError: true });
+      const assertion = expect(promise).to.be.rejectedWith(RetryExhaustedError).then(error => {
+        expect(error.elapsedMs).to.eq(61000);
+        expect(error.totalDelayMs).to.eq(61000);
+      });
+      await scheduler.advance(1000);
+      expect(attempts).to.deep.equal([0, 1000]);
+      await scheduler.runAll();
+      await assertion;
+      expect(attempts).to.deep.equal([0, 1000, 61000]);
+      expect(Date.now() - startTime).to.be.lessThan(500);
+    });
+    it('should drive timeoutReject and perAttemptTimeoutMs', async () => {
+      const scheduler = new VirtualScheduler();
+      const promise = PromiseUtils.withRetry((_attempt, _result, _error, signal) => PromiseUtils.delayedResolve(5000, 'late', { signal, scheduler }),
+        [10], undefined, { scheduler, perAttemptTimeoutMs: 1000 });
+      const assertion = expect(promise).to.be.rejectedWith(AttemptTimeoutError);
+      await scheduler.runAll();
+      await assertion;
+      expect(scheduler.now()).to.eq(2010);
+    });
+    it('should drive runPeriodically', async () => {
+      const scheduler = new VirtualScheduler();
+      const times: number[] = [];
+      const { done } = PromiseUtils.runPeriodically(() => times.push(scheduler.now()), 1000, { scheduler, maxDurationMs: 3500 });
+      await scheduler.advance(2500);
+      expect(times).to.deep.equal([1000, 2000]);
+      await scheduler.runAll();
+      await done;
+      expect(times).to.deep.equal([1000, 2000, 3000, 4000]);
+    });
+    it('should protect against endless timers in runAll', async () => {
+      const scheduler = new VirtualScheduler();
+      const { stop } = PromiseUtils.runPeriodically(() => { /* nothing to do */ }, 10, { scheduler });
+      await expect(scheduler.runAll(50)).to.be.rejectedWith(/50 timers/);
+      stop();
+      expect(scheduler.pendingTimers).to.eq(0);
+    });
+    it('should be used by CircuitBreaker, RetryBudget and Backoff', async () => {
+      const scheduler = new VirtualScheduler();
+      const breaker = new CircuitBreaker({ failureThreshold: 1, coolDownMs: 10000, scheduler });
+      breaker.trip();
+      expect(breaker.state).to.eq(CircuitBreakerState.Open);
+      await scheduler.advance(10000);
+      expect(breaker.state).to.eq(CircuitBreakerState.HalfOpen);
+
+      const budget = new RetryBudget({ minRetriesPerSecond: 1, scheduler });
+      expect(budget.tryWithdraw()).to.be.true;
+      expect(budget.tryWithdraw()).to.be.false;
+      await scheduler.advance(1000);
+      expect(budget.tryWithdraw()).to.be.true;
+
+      const iterator = Backoff.constant(100).withMaxElapsedTime(250, { scheduler })[Symbol.iterator]();
+      expect(iterator.next().value).to.eq(100);
+      await scheduler.advance(100);
+      expect(iterator.next().value).to.eq(100);
+      await scheduler.advance(100);
+      expect(iterator.next().done).to.be.true;
+    });
+  });
+  describe('AdaptiveConcurrencyLimit', () => {
+    it('should grow additively after rounds of successes within the bounds', async () => {
+      const changes: Array<{ from: number; to: number }> = [];
+      const limit = new AdaptiveConcurrencyLimit({ initialLimit: 2, maxLimit: 4, onLimitChange: change => changes.push(change) });
+      expect(limit.limit).to.eq(2);
+      for (let i = 0; i < 2; i++) {
+        await limit.execute(async () => i);
+      }
+      expect(limit.limit).to.eq(3);
+      for (let i = 0; i < 10; i++) {
+        await limit.execute(async () => i);
+      }
+      expect(limit.limit).to.eq(4);
+      expect(changes).to.deep.equal([{ from: 2, to: 3 }, { from: 3, to: 4 }]);
+    });
+    it('should shrink multiplicatively only once for failures from the same round', async () => {
+      const limit = new AdaptiveConcurrencyLimit({ initialLimit: 8, minLimit: 3 });
+      const failures = Array.from({ length: 4 }, () => limit.execute(() => PromiseUtils.delayedReject(10, new Error('throttled'))).catch(error => error));
+      expect(limit.inFlight).to.eq(4);
+      await Promise.all(failures);
+      expect(limit.inFlight).to.eq(0);
+      expect(limit.limit).to.eq(4);
+      await limit.execute(() => PromiseUtils.delayedReject(1, new Error('throttled'))).catch(error => error);
+      expect(limit.limit).to.eq(3);
+    });
+    it('should only treat classified errors and slow operations as overload', async () => {
+      const scheduler = new VirtualScheduler();
+      const limit = new AdaptiveConcurrencyLimit({ initialLimit: 10, isOverloaded: error => error.statusCode === 429, latencyThresholdMs: 1000, scheduler });
+      await expect(limit.execute(() => Promise.reject(Object.assign(new Error('bad request'), { statusCode: 400 })))).to.be.rejectedWith('bad request');
+      expect(limit.limit).to.eq(10);
+      const slow = limit.execute(() => PromiseUtils.delayedResolve(2000, 'slow', { scheduler }));
+      await scheduler.advance(2000);
+      await expect(slow).to.eventually.eq('slow');
+      expect(limit.limit).to.eq(5);
+      await expect(limit.execute(() => Promise.reject(Object.assign(new Error('throttled'), { statusCode: 429 })))).to.be.rejectedWith('throttled');
+      expect(limit.limit).to.eq(2);
+    });
+    it('should let inParallel and withConcurrency follow the limit at runtime', async () => {
+      const limit = new AdaptiveConcurrencyLimit({ initialLimit: 4, increaseStep: 0 });
+      let running = 0;
+      const maxRunningAfterThrottling: number[] = [];
+      const results = await PromiseUtils.inParallel(limit, Array.from({ length: 12 }, (_, i) => i), async i => {
+        running++;
+        if (i >= 4) {
+          maxRunningAfterThrottling.push(running);
+        }
+        await PromiseUtils.delayedResolve(10);
+        running--;
+        if (i < 4) {
+          throw new Error(`throttled ${i}`);
+        }
+        return i;
+      });
+      expect(results.slice(4)).to.deep.equal([4, 5, 6, 7, 8, 9, 10, 11]);
+      expect((results[0] as any).message).to.eq('throttled 0');
+      expect(limit.limit).to.eq(2);
+      expect(Math.max(...maxRunningAfterThrottling)).to.eq(2);
+
+      await expect(PromiseUtils.withConcurrency(limit, [1, 2, 3], async i => {
+        if (i === 2) {
+          throw new Error('failed');
+        }
+        return i;
+      })).to.be.rejectedWith('failed');
+      expect(limit.limit).to.eq(1);
+    });
+    it('should cap the jobs of all the callers sharing the limit', async () => {
+      const limit = new AdaptiveConcurrencyLimit({ minLimit: 2, maxLimit: 2 });
+      const queue = new TaskQueue({ concurrency: limit });
+      let running = 0;
+      let maxRunning = 0;
+      const job = async (i: number) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await PromiseUtils.delayedResolve(10);
+        running--;
+        return i;
+      };
+      const results = await Promise.all([
+        PromiseUtils.inParallel(limit, [1, 2, 3, 4], job),
+        PromiseUtils.withConcurrency(limit, [5, 6, 7, 8], job),
+        queue.add(() => job(9)),
+      ]);
+      expect(results).to.deep.equal([[1, 2, 3, 4], [5, 6, 7, 8], 9]);
+      expect(maxRunning).to.eq(2);
+      expect(limit.inFlight).to.eq(0);
+    });
+  });
+  describe('TaskQueue', () => {
+    it('should run tasks added over time with the concurrency limit', async () => {
+      const queue = new TaskQueue({ concurrency: 2 });
+      let running = 0;
+      let maxRunning = 0;
+      const task = (result: number) => async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await PromiseUtils.delayedResolve(20);
+        running--;
+        return result;
+      };
+      const first = [queue.add(task(1)), queue.add(task(2)), queue.add(task(3))];
+      expect(queue.pending).to.eq(2);
+      expect(queue.size).to.eq(1);
+      await PromiseUtils.delayedResolve(10);
+      const second = queue.add(task(4));
+      await expect(Promise.all([...first, second])).to.eventually.deep.equal([1, 2, 3, 4]);
+      expect(maxRunning).to.eq(2);
+      expect(queue.pending).to.eq(0);
+    });
+    it('should run tasks with higher priority first and keep the order within the same priority', async () => {
+      const queue = new TaskQueue({ autoStart: false });
+      const order: string[] = [];
+      const tasks = [['a', 0], ['b', 1], ['c', 0], ['d', 2], ['e', 1]].map(([name, priority]) =>
+        queue.add(async () => order.push(name as string), { priority: priority as number }));
+      expect(queue.isPaused).to.be.true;
+      expect(queue.size).to.eq(5);
+      queue.resume();
+      await Promise.all(tasks);
+      expect(order).to.deep.equal(['d', 'b', 'e', 'a', 'c']);
+    });
+    it('should not affect other tasks when a task fails', async () => {
+      const queue = new TaskQueue({ concurrency: 2 });
+      const failed = queue.add(() => {
+        throw new Error('sync failure');
+      });
+      const succeeded = queue.add(async () => 'ok');
+      await expect(failed).to.be.rejectedWith('sync failure');
+      await expect(succeeded).to.eventually.eq('ok');
+    });
+    it('should pause, resume and clear', async () => {
+      const queue = new TaskQueue();
+      const started: number[] = [];
+      const tasks = [1, 2, 3, 4].map(i => queue.add(async () => {
+        started.push(i);
+        await PromiseUtils.delayedResolve(10);
+        return i;
+      }));
+      queue.pause();
+      await tasks[0];
+      await PromiseUtils.delayedResolve(20);
+      expect(started).to.deep.equal([1]);
+      queue.resume();
+      await PromiseUtils.delayedResolve(5);
+      expect(queue.size).to.eq(2);
+      queue.clear();
+      expect(queue.size).to.eq(0);
+      await expect(tasks[2]).to.be.rejectedWith(DOMException, /removed from the queue/);
+      await expect(tasks[3]).to.be.rejectedWith(DOMException, /removed from the queue/);
+      await expect(tasks[1]).to.eventually.eq(2);
+      expect(started).to.deep.equal([1, 2]);
+    });
+    it('should resolve onEmpty and onIdle at the right time', async () => {
+      const queue = new TaskQueue();
+      await queue.onIdle();
+      const events: string[] = [];
+      queue.add(() => PromiseUtils.delayedResolve(20));
+      queue.add(() => PromiseUtils.delayedResolve(20));
+      const empty = queue.onEmpty().then(() => events.push('empty'));
+      const idle = queue.onIdle().then(() => events.push('idle'));
+      await PromiseUtils.delayedResolve(30);
+      expect(events).to.deep.equal(['empty']);
+      await Promise.all([empty, idle]);
+      expect(events).to.deep.equal(['empty', 'idle']);
+    });
+    it('should remove a waiting task when its signal is aborted', async () => {
+      const queue = new TaskQueue();
+      const controller = new AbortController();
+      const first = queue.add(() => PromiseUtils.delayedResolve(20, 1));
+      let called = false;
+      const second = queue.add(async () => {
+        called = true;
+      }, { signal: controller.signal });
+      controller.abort();
+      await expect(second).to.be.rejectedWith(DOMException, /aborted/);
+      expect(queue.size).to.eq(0);
+      await first;
+      expect(called).to.be.false;
+    });
+  });
+  describe('RateLimiter', () => {
+    it('should refill the token bucket continuously up to the burst capacity', async () => {
+      const scheduler = new VirtualScheduler();
+      const limiter = new RateLimiter({ limit: 2, intervalMs: 1000, burst: 4, scheduler });
+      expect(limiter.available).to.eq(4);
+      for (let i = 0; i < 4; i++) {
+        expect(limiter.tryAcquire()).to.be.true;
+      }
+      expect(limiter.tryAcquire()).to.be.false;
+      const grantedAt: number[] = [];
+      const acquisitions = [1, 1, 1].map(() => limiter.acquire().then(() => grantedAt.push(scheduler.now())));
+      await scheduler.runAll();
+      await Promise.all(acquisitions);
+      expect(grantedAt).to.deep.equal([500, 1000, 1500]);
+      await scheduler.advance(10000);
+      expect(limiter.available).to.eq(4);
+    });
+    it('should not grant more than the limit within any sliding window', async () => {
+      const scheduler = new VirtualScheduler();
+      const limiter = new RateLimiter({ limit: 2, intervalMs: 1000, algorithm: 'slidingWindow', scheduler });
+      await limiter.acquire();
+      await scheduler.advance(300);
+      await limiter.acquire();
+      const grantedAt: number[] = [];
+      const acquisitions = [1, 1, 1].map(() => limiter.acquire().then(() => grantedAt.push(scheduler.now())));
+      await scheduler.runAll();
+      await Promise.all(acquisitions);
+      expect(grantedAt).to.deep.equal([1000, 1300, 2000]);
+    });
+    it('should serve callers in order regardless of the cost', async () => {
+      const scheduler = new VirtualScheduler();
+      const limiter = new RateLimiter({ limit: 3, intervalMs: 300, scheduler });
+      await limiter.acquire(2);
+      const order: string[] = [];
+      const heavy = limiter.acquire(3).then(() => order.push(`heavy@${scheduler.now()}`));
+      const light = limiter.acquire(1).then(() => order.push(`light@${scheduler.now()}`));
+      expect(limiter.tryAcquire()).to.be.false;
+      await scheduler.runAll();
+      await Promise.all([heavy, light]);
+      expect(order).to.deep.equal(['heavy@200', 'light@300']);
+      await expect(limiter.acquire(4)).to.be.rejectedWith(RangeError);
+    });
+    it('should reject costs that are not finite, negative, or more than the capacity', async () => {
+      const limiter = new RateLimiter({ limit: 3, intervalMs: 300, scheduler: new VirtualScheduler() });
+      for (const cost of [Number.NaN, Number.POSITIVE_INFINITY, -1]) {
+        await expect(limiter.acquire(cost)).to.be.rejectedWith(RangeError, 'finite non-negative');
+        expect(() => limiter.tryAcquire(cost)).to.throw(RangeError, 'finite non-negative');
+      }
+      await expect(limiter.acquire(4)).to.be.rejectedWith(RangeError, 'capacity of 3');
+      expect(() => limiter.tryAcquire(4)).to.throw(RangeError, 'capacity of 3');
+      expect(limiter.available).to.eq(3);
+      expect(limiter.tryAcquire(0)).to.be.true;
+      expect(limiter.tryAcquire(3)).to.be.true;
+    });
+    it('should stop waiting when the signal is aborted', async () => {
+      const scheduler = new VirtualScheduler();
+      const limiter = new RateLimiter({ limit: 1, intervalMs: 1000, scheduler });
+      await limiter.acquire();
+      const controller = new AbortController();
+      const aborted = limiter.acquire(1, { signal: controller.signal });
+      const next = limiter.acquire();
+      controller.abort();
+      await expect(aborted).to.be.rejectedWith(DOMException, /aborted/);
+      await scheduler.advance(1000);
+      await next;
+      expect(scheduler.now()).to.eq(1000);
+    });
+    it('should be shared by inParallel, withRetry and runPeriodically', async () => {
+      const scheduler = new VirtualScheduler();
+      const limiter = new RateLimiter({ limit: 1, intervalMs: 100, scheduler });
+      const startedAt: string[] = [];
+      const parallel = PromiseUtils.inParallel(10, [1, 2, 3], async job => startedAt.push(`job${job}@${scheduler.now()}`), { rateLimiter: limiter });
+      const retried = PromiseUtils.withRetry(async attempt => {
+        startedAt.push(`attempt${attempt}@${scheduler.now()}`);
+        if (attempt < 2) {
+          throw new Error('failed');
+        }
+      }, [0], undefined, { rateLimiter: limiter, scheduler });
+      const { done } = PromiseUtils.runPeriodically(iteration => startedAt.push(`iteration${iteration}@${scheduler.now()}`), 0, { maxExecutions: 1, rateLimiter: limiter, scheduler });
+      await scheduler.runAll();
+      await Promise.all([parallel, retried, done]);
+      expect(startedAt).to.deep.equal(['job1@0', 'job2@100', 'job3@200', 'attempt1@300', 'iteration1@400', 'attempt2@500']);
+    });
+  });
+  describe('ReadWriteLock', () => {
+    it('should let readers run concurrently and writers run exclusively', async () => {
+      const scheduler = new VirtualScheduler();
+      const lock = new ReadWriteLock();
+      const events: string[] = [];
+      const operation = (name: string) => async () => {
+        events.push(`${name} start@${scheduler.now()}`);
+        await PromiseUtils.delayedResolve(10, undefined, { scheduler });
+        events.push(`${name} end@${scheduler.now()}`);
+        return name;
+      };
+      const promises = [lock.read(operation('r1')), lock.read(operation('r2')), lock.write(operation('w1')), lock.write(operation('w2'))];
+      expect(lock.readers).to.eq(2);
+      expect(lock.queueDepth).to.eq(2);
+      await scheduler.runAll();
+      expect(await Promise.all(promises)).to.deep.equal(['r1', 'r2', 'w1', 'w2']);
+      expect(events).to.deep.equal(['r1 start@0', 'r2 start@0', 'r1 end@10', 'r2 end@10', 'w1 start@10', 'w1 end@20', 'w2 start@20', 'w2 end@30']);
+      expect(lock.isWriting).to.be.false;
+    });
+    it('should not let new readers overtake a waiting writer', async () => {
+      const scheduler = new VirtualScheduler();
+      const lock = new ReadWriteLock();
+      const started: string[] = [];
+      const operation = (name: string) => async () => {
+        started.push(`${name}@${scheduler.now()}`);
+        await PromiseUtils.delayedResolve(10, undefined, { scheduler });
+      };
+      const promises = [lock.read(operation('r1'))];
+      await scheduler.advance(5);
+      promises.push(lock.write(operation('w1')), lock.read(operation('r2')), lock.read(operation('r3')));
+      await scheduler.runAll();
+      await Promise.all(promises);
+      expect(started).to.deep.equal(['r1@0', 'w1@10', 'r2@20', 'r3@20']);
+    });
+    it('should pass the state and result of the previous write to the operations', async () => {
+      const lock = new ReadWriteLock();
+      const seen: any[] = [];
+      const record = (name: string) => async (previousState: any, previousSettledState: any, previousResult: any) => {
+        seen.push([name, previousState, previousSettledState, previousResult]);
+        return name;
+      };
+      await lock.read(record('r1'));
+      const w1 = lock.write(async () => {
+        await PromiseUtils.delayedResolve(10);
+        throw new Error('w1');
+      });
+      const r2 = lock.read(record('r2'));
+      await expect(w1).to.be.rejectedWith('w1');
+      await r2;
+      await lock.write(record('w2'));
+      expect(seen.map(([name, state, settledState, result]) => [name, state, settledState, result?.message ?? result])).to.deep.equal([
+        ['r1', undefined, undefined, undefined],
+        ['r2', PromiseState.Pending, PromiseState.Rejected, 'w1'],
+        ['w2', PromiseState.Rejected, PromiseState.Rejected, 'w1'],
+      ]);
+    });
+    it('should reject with LockTimeoutError when the lock can not be acquired in time', async () => {
+      const scheduler = new VirtualScheduler();
+      const lock = new ReadWriteLock({ timeoutMs: 50, scheduler });
+      const writing = lock.write(() => PromiseUtils.delayedResolve(100, 'w1', { scheduler }));
+      const reading = lock.read(async () => 'r1');
+      const waiting = lock.read(async () => 'r2', { timeoutMs: 200 });
+      const assertion = expect(reading).to.be.rejectedWith(LockTimeoutError, 'Could not acquire the read lock within 50ms');
+      await scheduler.advance(50);
+      await assertion;
+      expect(lock.queueDepth).to.eq(1);
+      await scheduler.runAll();
+      expect(await writing).to.eq('w1');
+      expect(await waiting).to.eq('r2');
+    });
+    it('should let readers behind a writer go when the writer is aborted', async () => {
+      const scheduler = new VirtualScheduler();
+      const lock = new ReadWriteLock();
+      const controller = new AbortController();
+      const r1 = lock.read(() => PromiseUtils.delayedResolve(100, 'r1', { scheduler }));
+      const w1 = lock.write(async () => 'w1', { signal: controller.signal });
+      const r2 = lock.read(async () => 'r2');
+      expect(lock.queueDepth).to.eq(2);
+      controller.abort();
+      await expect(w1).to.be.rejectedWith(DOMException, /aborted/);
+      expect(await r2).to.eq('r2');
+      await scheduler.runAll();
+      expect(await r1).to.eq('r1');
+    });
+  });
+  describe('Semaphore', () => {
+    it('should cap the number of permits in use and serve waiters in order', async () => {
+      const semaphore = new Semaphore({ permits: 3 });
+      await semaphore.acquire(2);
+      expect(semaphore.tryAcquire(2)).to.be.false;
+      const granted: string[] = [];
+      const heavy = semaphore.acquire(3).then(() => granted.push('heavy'));
+      const light = semaphore.acquire(1).then(() => granted.push('light'));
+      expect(semaphore.available).to.eq(1);
+      expect(semaphore.waiting).to.eq(2);
+      expect(semaphore.tryAcquire()).to.be.false; // it would overtake the waiters
+      semaphore.release(2);
+      await heavy;
+      expect(granted).to.deep.equal(['heavy']);
+      semaphore.release(3);
+      await light;
+      expect(granted).to.deep.equal(['heavy', 'light']);
+      expect(semaphore.available).to.eq(2);
+      expect(() => semaphore.release(2)).to.throw(RangeError);
+    });
+    it('should reject when the weight is more than the total number of permits', async () => {
+      await expect(new Semaphore({ permits: 2 }).acquire(3)).to.be.rejectedWith(RangeError);
+    });
+    it('should reject weights that are not finite positive numbers', async () => {
+      const semaphore = new Semaphore({ permits: 2 });
+      for (const weight of [0, -1, Number.NaN, Number.POSITIVE_INFINITY]) {
+        await expect(semaphore.acquire(weight)).to.be.rejectedWith(RangeError, 'finite positive');
+        expect(() => semaphore.tryAcquire(weight)).to.throw(RangeError, 'finite positive');
+        expect(() => semaphore.release(weight)).to.throw(RangeError, 'finite positive');
+      }
+      expect(semaphore.available).to.eq(2);
+      expect(semaphore.tryAcquire(2)).to.be.true;
+      expect(() => semaphore.release(3)).to.throw(RangeError, 'only 2 permits are in use');
+      semaphore.release(2);
+      expect(semaphore.available).to.eq(2);
+    });
+    it('should time out and let the callers behind go', async () => {
+      const scheduler = new VirtualScheduler();
+      const semaphore = new Semaphore({ permits: 2, timeoutMs: 100, scheduler });
+      await semaphore.acquire();
+      const heavy = semaphore.acquire(2);
+      const light = semaphore.acquire(1, { timeoutMs: 1000 });
+      const assertion = expect(heavy).to.be.rejectedWith(LockTimeoutError, 'Could not acquire the semaphore lock within 100ms');
+      await scheduler.advance(100);
+      await assertion;
+      await light;
+      expect(semaphore.available).to.eq(0);
+      expect(scheduler.pendingTimers).to.eq(0);
+    });
+    it('should stop waiting when the signal is aborted', async () => {
+      const semaphore = new Semaphore({ permits: 1 });
+      await semaphore.acquire();
+      const controller = new AbortController();
+      const waiting = semaphore.acquire(1, { signal: controller.signal });
+      controller.abort();
+      await expect(waiting).to.be.rejectedWith(DOMException, /aborted/);
+      expect(semaphore.waiting).to.eq(0);
+    });
+    it('should always release the permits held by run(...)', async () => {
+      const semaphore = new Semaphore({ permits: 2 });
+      let running = 0;
+      let maxRunning = 0;
+      const results = await Promise.allSettled([1, 2, 3, 4, 5].map(i => semaphore.run(async () => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await PromiseUtils.delayedResolve(10);
+        running--;
+        if (i === 2) {
+          throw new Error('failed');
+        }
+        return i;
+      })));
+      expect(results.map(result => result.status)).to.deep.equal(['fulfilled', 'rejected', 'fulfilled', 'fulfilled', 'fulfilled']);
+      expect(maxRunning).to.eq(2);
+      expect(semaphore.available).to.eq(2);
+    });
+  });
+  describe('Mutex', () => {
+    it('should let only one caller hold the lock at a time, in order', async () => {
+      const mutex = new Mutex();
+      const release1 = await mutex.lock();
+      expect(mutex.isLocked).to.be.true;
+      expect(mutex.tryLock()).to.be.undefined;
+      const acquired: string[] = [];
+      const second = mutex.lock().then(release => {
+        acquired.push('second');
+        return release;
+      });
+      const third = mutex.lock().then(release => {
+        acquired.push('third');
+        return release;
+      });
+      expect(mutex.waiting).to.eq(2);
+      release1();
+      release1(); // releasing twice is harmless
+      (await second)();
+      (await third)();
+      expect(acquired).to.deep.equal(['second', 'third']);
+      expect(mutex.isLocked).to.be.false;
+      const release = mutex.tryLock();
+      expect(release).to.be.a('function');
+      release!();
+    });
+    it('should give up waiting on timeout or abort', async () => {
+      const scheduler = new VirtualScheduler();
+      const mutex = new Mutex({ timeoutMs: 100, scheduler });
+      const release = await mutex.lock();
+      const timedOut = mutex.lock();
+      const controller = new AbortController();
+      const aborted = mutex.lock({ signal: controller.signal, timeoutMs: 1000 });
+      const assertion = expect(timedOut).to.be.rejectedWith(LockTimeoutError, 'Could not acquire the mutex lock within 100ms');
+      await scheduler.advance(100);
+      await assertion;
+      controller.abort();
+      await expect(aborted).to.be.rejectedWith(DOMException, /aborted/);
+      expect(mutex.waiting).to.eq(0);
+      expect(scheduler.pendingTimers).to.eq(0);
+      release();
+      expect(mutex.isLocked).to.be.false;
+    });
+    it('should release the lock by force after maxHoldTimeMs', async () => {
+      const scheduler = new VirtualScheduler();
+      const events: Array<{ heldMs: number; key?: unknown }> = [];
+      const mutex = new Mutex({ maxHoldTimeMs: 500, scheduler, onForceRelease: event => events.push(event) });
+      const hungRelease = await mutex.lock();
+      const next = mutex.lock();
+      await scheduler.advance(500);
+      const release = await next;
+      expect(events).to.deep.equal([{ heldMs: 500 }]);
+      hungRelease(); // too late, it must not release the lock of the next holder
+      expect(mutex.isLocked).to.be.true;
+      release();
+      expect(mutex.isLocked).to.be.false;
+      expect(scheduler.pendingTimers).to.eq(0);
+    });
+  });
+  describe('KeyedMutex', () => {
+    it('should lock keys independently and forget idle keys', async () => {
+      const mutexes = new KeyedMutex();
+      const releaseA = await mutexes.lock('a');
+      const releaseB = mutexes.tryLock('b');
+      expect(releaseB).to.be.a('function');
+      expect(mutexes.tryLock('a')).to.be.undefined;
+      expect(mutexes.isLocked('a')).to.be.true;
+      expect(mutexes.size).to.eq(2);
+      const nextA = mutexes.lock('a');
+      releaseA();
+      releaseB!();
+      expect(mutexes.size).to.eq(1);
+      (await nextA)();
+      expect(mutexes.size).to.eq(0);
+      expect(mutexes.isLocked('a')).to.be.false;
+    });
+    it('should forget a key after a timed out caller or a forced release', async () => {
+      const scheduler = new VirtualScheduler();
+      const events: Array<{ heldMs: number; key?: unknown }> = [];
+      const mutexes = new KeyedMutex({ timeoutMs: 100, maxHoldTimeMs: 300, scheduler, onForceRelease: event => events.push(event) });
+      await mutexes.lock('a');
+      const waiting = mutexes.lock('a');
+      const assertion = expect(waiting).to.be.rejectedWith(LockTimeoutError);
+      await scheduler.advance(100);
+      await assertion;
+      expect(mutexes.size).to.eq(1);
+      await scheduler.advance(200);
+      expect(events).to.deep.equal([{ heldMs: 300, key: 'a' }]);
+      expect(mutexes.size).to.eq(0);
+    });
   });
 });